@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import GitGalaxyCanvas from './components/GitGalaxyCanvas';
 import CommitInfoPanel from './components/CommitInfoPanel';
 import RepoInputForm from './components/RepoInputForm';
@@ -6,16 +6,124 @@ import Loader from './components/Loader';
 import Header from './components/Header';
 import ConstellationCanvas from './components/ConstellationCanvas';
 import AnalyticsPanel from './components/AnalyticsPanel';
-import type { CommitNode, RepoData, User, ConstellationRepo, Author, Settings, PullRequest } from './types';
+import HotspotPanel from './components/HotspotPanel';
+import SearchPanel from './components/SearchPanel';
+import PlaybackControls from './components/PlaybackControls';
+import ComparisonPanel from './components/ComparisonPanel';
+import type { CommitNode, RepoData, User, ConstellationRepo, Author, Settings, PullRequest, GitRef, PathHistory, FileChurn, TimeRange, CommitComparison, JobProgress } from './types';
 import CustomizationPanel from './components/CustomizationPanel';
+import PathFilterPanel from './components/PathFilterPanel';
 import { API_BASE_URL } from './config';
+import { readAnalysisFile } from './lib/analysisFile';
+import { commitTimeOf } from './lib/layout/chronological';
+import { findAncestryPath, buildCommitGraph, findAncestors, findDescendants, type LineageMode } from './lib/graph/commitGraph';
+import type { HighlightPath } from './lib/three/graphBuilder';
+
+// Analysis jobs take longer than the server is willing to hold a request open
+const JOB_POLL_INTERVAL_MS = 1000;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface JobState {
+  status: 'pending' | 'processing' | 'complete' | 'failed' | 'cancelled';
+  progress?: JobProgress;
+  result?: any;
+  error?: string;
+}
+
+// Follows a background job over Server-Sent Events. Resolves with
+// `{ result }` once it completes, or with null when the stream cannot be used
+// (no EventSource, or the connection failed) so the caller can poll instead.
+const streamJob = (jobId: string, deadline: number, onProgress?: (progress: JobProgress) => void) =>
+  new Promise<{ result: any } | null>((resolve, reject) => {
+    if (typeof EventSource === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const source = new EventSource(`${API_BASE_URL}/api/job/${jobId}/events`, { withCredentials: true });
+    const timeout = setTimeout(() => {
+      source.close();
+      reject(new Error('Analysis timed out'));
+    }, deadline - Date.now());
+    const stop = () => {
+      clearTimeout(timeout);
+      source.close();
+    };
+
+    source.onmessage = event => {
+      const state: JobState = JSON.parse(event.data);
+      if (state.status === 'complete') {
+        stop();
+        resolve({ result: state.result });
+      } else if (state.status === 'failed') {
+        stop();
+        reject(new Error(state.error || 'Analysis failed'));
+      } else if (state.status === 'cancelled') {
+        stop();
+        reject(new Error('Analysis was cancelled'));
+      } else if (state.progress) {
+        onProgress?.(state.progress);
+      }
+    };
+    source.onerror = () => {
+      stop();
+      resolve(null);
+    };
+  });
+
+// Waits for a background job to complete and resolves with its result,
+// streaming progress when the server supports it and polling otherwise
+const waitForJob = async (jobId: string, onProgress?: (progress: JobProgress) => void): Promise<any> => {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  const streamed = await streamJob(jobId, deadline, onProgress);
+  if (streamed) {
+    return streamed.result;
+  }
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+
+    const statusResponse = await fetch(`${API_BASE_URL}/api/job/${jobId}/status`, {
+      credentials: 'include'
+    }).catch(() => {
+      throw new Error('Failed to poll job status');
+    });
+    if (!statusResponse.ok) {
+      throw new Error('Failed to check job status');
+    }
+
+    const status: JobState = await statusResponse.json();
+    if (status.status === 'complete') {
+      return status.result;
+    }
+    if (status.status === 'failed') {
+      throw new Error(status.error || 'Analysis failed');
+    }
+    if (status.status === 'cancelled') {
+      throw new Error('Analysis was cancelled');
+    }
+    if (status.progress) {
+      onProgress?.(status.progress);
+    }
+    // Continue polling if status is 'pending' or 'processing'
+  }
+  throw new Error('Analysis timed out');
+};
 
 const App: React.FC = () => {
   const [selectedCommit, setSelectedCommit] = useState<{ hash: string, node: CommitNode } | null>(null);
   const [repoData, setRepoData] = useState<RepoData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [jobStartedAt, setJobStartedAt] = useState<number | null>(null);
+  // Job of the analysis the loader is showing; results of any other job are stale
+  const analysisJobRef = useRef<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Connected to the live channel of the open repository
+  const [isLive, setIsLive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentRepoUrl, setCurrentRepoUrl] = useState<string | null>(null);
+  // Name of the exported analysis file the galaxy was opened from; null when it came from the backend
+  const [offlineFileName, setOfflineFileName] = useState<string | null>(null);
   
   // New state for authentication and constellation view
   const [view, setView] = useState<'constellation' | 'detail'>('constellation');
@@ -25,8 +133,41 @@ const App: React.FC = () => {
   
   // Phase 6: Analytics state
   const [authors, setAuthors] = useState<Author[]>([]);
+  const [refs, setRefs] = useState<GitRef[]>([]);
   const [filteredAuthor, setFilteredAuthor] = useState<string | null>(null);
-  const [timelineCommitLimit, setTimelineCommitLimit] = useState<number | null>(null);
+  // Commits that touched the path picked in the file history panel
+  const [pathFilter, setPathFilter] = useState<PathHistory | null>(null);
+  // Per-file change statistics for the hotspot panel
+  const [churn, setChurn] = useState<FileChurn[]>([]);
+  const highlightedCommits = useMemo(() => (pathFilter ? new Set(pathFilter.hashes) : null), [pathFilter]);
+  const [timelineRange, setTimelineRange] = useState<TimeRange | null>(null);
+  const commitTimes = useMemo(() => (repoData ? Object.values(repoData).map(commitTimeOf) : []), [repoData]);
+  // Commit the camera should fly to, set by the search panel
+  const [focusRequest, setFocusRequest] = useState<{ hash: string } | null>(null);
+  // Newest commit revealed by history playback, when the camera follows it
+  const [followCommit, setFollowCommit] = useState<string | null>(null);
+  // Commits picked with click (base) and shift-click (head) for comparison
+  const [comparePair, setComparePair] = useState<{ base: { hash: string, node: CommitNode }, head: { hash: string, node: CommitNode } } | null>(null);
+  const [comparison, setComparison] = useState<CommitComparison | null>(null);
+  // Ancestors or descendants of the selected commit, highlighted in the galaxy
+  const [lineageMode, setLineageMode] = useState<LineageMode>('none');
+  const commitGraph = useMemo(() => (repoData ? buildCommitGraph(repoData) : null), [repoData]);
+  const lineage = useMemo(() => {
+    if (!commitGraph || !selectedCommit || lineageMode === 'none') return null;
+    return lineageMode === 'ancestors'
+      ? findAncestors(commitGraph, selectedCommit.hash)
+      : findDescendants(commitGraph, selectedCommit.hash);
+  }, [commitGraph, selectedCommit, lineageMode]);
+  // Ancestry of both compared commits back to their merge base
+  const comparePaths = useMemo<HighlightPath[]>(() => {
+    if (!repoData || !comparison?.mergeBase) return [];
+    const paths: HighlightPath[] = [];
+    const basePath = findAncestryPath(repoData, comparison.base, comparison.mergeBase);
+    const headPath = findAncestryPath(repoData, comparison.head, comparison.mergeBase);
+    if (basePath) paths.push({ hashes: basePath, color: 0xffa040 });
+    if (headPath) paths.push({ hashes: headPath, color: 0xff40ff });
+    return paths;
+  }, [repoData, comparison]);
 
   // Phase 7: Pull Requests state
   const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
@@ -36,6 +177,9 @@ const App: React.FC = () => {
     theme: 'cyberpunk',
     bloomStrength: 1.7,
     autoRotateSpeed: 0.1,
+    showMergeEdges: true,
+    layoutMode: 'topological',
+    compressIdleGaps: false,
   });
   const [isPanelOpen, setIsPanelOpen] = useState(false);
 
@@ -68,6 +212,16 @@ const App: React.FC = () => {
           setSettings(prev => ({ ...prev, autoRotateSpeed: rotateValue }));
         }
       }
+
+      // Load merge edge visibility
+      if (params.get('merges') === '0') {
+        setSettings(prev => ({ ...prev, showMergeEdges: false }));
+      }
+
+      // Load layout mode
+      if (params.get('layout') === 'chronological') {
+        setSettings(prev => ({ ...prev, layoutMode: 'chronological', compressIdleGaps: params.get('gaps') === 'compressed' }));
+      }
     }
   }, []); // Only run on mount
 
@@ -101,6 +255,15 @@ const App: React.FC = () => {
     if (settings.autoRotateSpeed !== 0.1) {
       params.set('rotate', settings.autoRotateSpeed.toString());
     }
+    if (!settings.showMergeEdges) {
+      params.set('merges', '0');
+    }
+    if (settings.layoutMode !== 'topological') {
+      params.set('layout', settings.layoutMode);
+      if (settings.compressIdleGaps) {
+        params.set('gaps', 'compressed');
+      }
+    }
     if (selectedCommit) {
       params.set('commit', selectedCommit.hash);
     }
@@ -199,12 +362,36 @@ const App: React.FC = () => {
     checkAuthStatus();
   }, []);
 
+  // Pull requests (or merge requests) of the analyzed repository, from whichever host it lives on
+  const loadPullRequests = async (repoUrl: string) => {
+    try {
+      const prsResponse = await fetch(`${API_BASE_URL}/api/repo/prs?repoUrl=${encodeURIComponent(repoUrl)}`, {
+        credentials: 'include'
+      });
+      if (prsResponse.ok) {
+        const prs = await prsResponse.json();
+        setPullRequests(prs);
+      }
+    } catch (err) {
+      console.error('Failed to fetch PRs:', err);
+    }
+  };
+
   const handleAnalyzeRepo = async (repoUrl: string) => {
     setIsLoading(true);
+    setJobStartedAt(null);
     setError(null);
     setRepoData(null);
     setSelectedCommit(null);
+    setPullRequests([]);
+    setOfflineFileName(null);
+    setLineageMode('none');
+    setFocusRequest(null);
+    setFollowCommit(null);
+    closeComparison();
+    analysisJobRef.current = null;
 
+    let jobId: string | null = null;
     try {
       const response = await fetch(`${API_BASE_URL}/api/analyze`, {
         method: 'POST',
@@ -224,107 +411,213 @@ const App: React.FC = () => {
       
       // Phase 8: Check if we got a job ID (202 response)
       if (response.status === 202 && responseData.jobId) {
-        // Poll for job status
-        const pollInterval = setInterval(async () => {
-          try {
-            const statusResponse = await fetch(`${API_BASE_URL}/api/job/${responseData.jobId}/status`, {
-              credentials: 'include'
-            });
-            
-            if (!statusResponse.ok) {
-              clearInterval(pollInterval);
-              setIsLoading(false);
-              setError('Failed to check job status');
-              return;
-            }
-            
-            const status = await statusResponse.json();
-            
-            if (status.status === 'complete') {
-              clearInterval(pollInterval);
-              const data = status.result;
-              const repoDataToSet = data.repoData || data;
-              
-              // Validate repoData structure
-              if (!repoDataToSet || typeof repoDataToSet !== 'object') {
-                clearInterval(pollInterval);
-                setIsLoading(false);
-                setError('Invalid repository data received');
-                return;
-              }
-              
-              const commitCount = Object.keys(repoDataToSet).length;
-              if (commitCount === 0) {
-                clearInterval(pollInterval);
-                setIsLoading(false);
-                setError('Repository appears to be empty');
-                return;
-              }
-              
-              console.log('[FRONTEND] Setting repo data:', { commitCount, hasAuthors: !!(data.authors) });
-              setRepoData(repoDataToSet);
-              setAuthors(data.authors || []);
-              setCurrentRepoUrl(repoUrl);
-              setFilteredAuthor(null);
-              setTimelineCommitLimit(null);
-              setView('detail');
-              setIsLoading(false);
-              
-              // Fetch pull requests if authenticated
-              if (authState === 'authenticated') {
-                try {
-                  const urlParts = repoUrl.replace('https://github.com/', '').split('/');
-                  if (urlParts.length >= 2) {
-                    const [owner, repo] = urlParts;
-                    const prsResponse = await fetch(`${API_BASE_URL}/api/repo/prs?owner=${encodeURIComponent(owner)}&repo=${encodeURIComponent(repo)}`, {
-                      credentials: 'include'
-                    });
-                    if (prsResponse.ok) {
-                      const prs = await prsResponse.json();
-                      setPullRequests(prs);
-                    }
-                  }
-                } catch (err) {
-                  console.error('Failed to fetch PRs:', err);
-                }
-              }
-            } else if (status.status === 'failed') {
-              clearInterval(pollInterval);
-              setIsLoading(false);
-              setError(status.error || 'Analysis failed');
-            }
-            // Continue polling if status is 'pending' or 'processing'
-          } catch (err) {
-            clearInterval(pollInterval);
-            setIsLoading(false);
-            setError('Failed to poll job status');
-          }
-        }, 1000); // Poll every second
-        
-        // Timeout after 5 minutes
-        setTimeout(() => {
-          clearInterval(pollInterval);
-          if (isLoading) {
-            setIsLoading(false);
-            setError('Analysis timed out');
-          }
-        }, 5 * 60 * 1000);
+        jobId = responseData.jobId as string;
+        analysisJobRef.current = jobId;
+        setJobProgress(null);
+        setJobStartedAt(Date.now());
+        const data = await waitForJob(jobId, setJobProgress);
+        if (analysisJobRef.current !== jobId) return;
+        analysisJobRef.current = null;
+        const repoDataToSet = data.repoData || data;
+
+        // Validate repoData structure
+        if (!repoDataToSet || typeof repoDataToSet !== 'object') {
+          throw new Error('Invalid repository data received');
+        }
+
+        const commitCount = Object.keys(repoDataToSet).length;
+        if (commitCount === 0) {
+          throw new Error('Repository appears to be empty');
+        }
+
+        console.log('[FRONTEND] Setting repo data:', { commitCount, hasAuthors: !!(data.authors) });
+        setRepoData(repoDataToSet);
+        setAuthors(data.authors || []);
+        setRefs(data.refs || []);
+        setChurn(data.churn || []);
+        setCurrentRepoUrl(repoUrl);
+        setFilteredAuthor(null);
+        setPathFilter(null);
+        setTimelineRange(null);
+        setView('detail');
+        setIsLoading(false);
+
+        loadPullRequests(repoUrl);
       } else {
         // Immediate response (cached data)
         setRepoData(responseData.repoData || responseData);
         setAuthors(responseData.authors || []);
+        setRefs(responseData.refs || []);
+        setChurn(responseData.churn || []);
         setCurrentRepoUrl(repoUrl);
         setFilteredAuthor(null);
-        setTimelineCommitLimit(null);
+        setPathFilter(null);
+        setTimelineRange(null);
         setView('detail');
         setIsLoading(false);
+        loadPullRequests(repoUrl);
       }
     } catch (err) {
+      // Cancelled, or superseded by another analysis
+      if (jobId && analysisJobRef.current !== jobId) return;
+      analysisJobRef.current = null;
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
       setIsLoading(false);
     }
   };
 
+  // Stops the running analysis: the server kills its git processes and drops
+  // the partial clone. The form comes back right away.
+  const handleCancelAnalysis = async () => {
+    const jobId = analysisJobRef.current;
+    if (!jobId) return;
+    analysisJobRef.current = null;
+    setIsLoading(false);
+    setJobStartedAt(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/job/${jobId}/cancel`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      // 409: the job finished in the meantime, nothing left to stop
+      if (!response.ok && response.status !== 409) {
+        console.error('Failed to cancel analysis:', response.status);
+      }
+    } catch (err) {
+      console.error('Failed to cancel analysis:', err);
+    }
+  };
+
+  // Opens an exported analysis file entirely in the browser, without the backend
+  const handleOpenFile = async (file: File) => {
+    setError(null);
+    try {
+      const data = await readAnalysisFile(file);
+      console.log('[FRONTEND] Opened analysis file:', { name: file.name, commitCount: Object.keys(data.repoData).length });
+      setSelectedCommit(null);
+      setRepoData(data.repoData);
+      setAuthors(data.authors);
+      setRefs(data.refs);
+      setChurn(data.churn || []);
+      setPullRequests([]);
+      setCurrentRepoUrl(null);
+      setOfflineFileName(file.name);
+      setFilteredAuthor(null);
+      setPathFilter(null);
+      setTimelineRange(null);
+      setLineageMode('none');
+      setFocusRequest(null);
+      setFollowCommit(null);
+      closeComparison();
+      setView('detail');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open file');
+    }
+  };
+
+  // Applies the result of a refresh job or live update
+  const applyRefreshResult = (data: any) => {
+    if (data.added) {
+      // Incremental result: existing commits are unchanged
+      setRepoData(prev => (prev ? { ...prev, ...data.added } : prev));
+    } else {
+      // The server had nothing to build on and ran a full analysis
+      setRepoData(data.repoData || data);
+    }
+    setAuthors(data.authors || []);
+    setRefs(data.refs || []);
+    if (data.churn) setChurn(data.churn);
+  };
+
+  // Live channel: commits pushed while the galaxy is open (reported to the
+  // server by a webhook) arrive as refresh deltas and are appended to the scene
+  useEffect(() => {
+    if (!currentRepoUrl || view !== 'detail' || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`${API_BASE_URL}/api/repo/live?repoUrl=${encodeURIComponent(currentRepoUrl)}`, {
+      withCredentials: true
+    });
+    source.onopen = () => setIsLive(true);
+    // EventSource reconnects by itself
+    source.onerror = () => setIsLive(false);
+    source.onmessage = event => applyRefreshResult(JSON.parse(event.data));
+    return () => {
+      source.close();
+      setIsLive(false);
+    };
+  }, [currentRepoUrl, view]);
+
+  // Fetches commits pushed since the last analysis. Only the new commits come
+  // back, so the galaxy keeps its shape and the new stars are appended to it.
+  const handleRefreshRepo = async () => {
+    if (!currentRepoUrl || isRefreshing) return;
+    setIsRefreshing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/repo/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ repoUrl: currentRepoUrl }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to refresh repository');
+      }
+
+      const { jobId } = await response.json();
+      applyRefreshResult(await waitForJob(jobId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Highlights the commits that touched a hotspot picked in the churn tree
+  const handleSelectHotspot = async (path: string) => {
+    if (!currentRepoUrl) return;
+    const response = await fetch(`${API_BASE_URL}/api/repo/path-history?repoUrl=${encodeURIComponent(currentRepoUrl)}&path=${encodeURIComponent(path)}`, {
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to load path history');
+    }
+    setPathFilter(await response.json());
+  };
+
+  const handleSearchResult = (hash: string) => {
+    if (!repoData?.[hash]) return;
+    setSelectedCommit({ hash, node: repoData[hash] });
+    setFocusRequest({ hash });
+  };
+
+  const handleCompareSelect = (commit: { hash: string, node: CommitNode }) => {
+    // Nothing to compare against yet: shift-click selects like a plain click
+    if (!selectedCommit || selectedCommit.hash === commit.hash) {
+      setSelectedCommit(commit);
+      return;
+    }
+    setComparePair({ base: selectedCommit, head: commit });
+  };
+
+  const closeComparison = () => {
+    setComparePair(null);
+    setComparison(null);
+  };
+
+  // Playback reveals the history through the timeline window
+  const handlePlaybackFrame = useCallback((range: TimeRange | null, followHash: string | null) => {
+    setTimelineRange(range);
+    setFollowCommit(followHash);
+  }, []);
+
   const handleRepoSelect = (repo: ConstellationRepo) => {
     console.log('[App] Repo selected from constellation:', repo.name, repo.clone_url);
     setRepoData(null); // Clear previous data
@@ -348,6 +641,7 @@ const App: React.FC = () => {
         user={user} 
         onLogout={handleLogout}
         onSearchRepo={handleAnalyzeRepo}
+        onOpenFile={handleOpenFile}
       />
 
       {authState === 'loading' && (
@@ -357,9 +651,9 @@ const App: React.FC = () => {
       {authState === 'unauthenticated' && (
         <>
           {!repoData && !isLoading && (
-            <RepoInputForm onAnalyze={handleAnalyzeRepo} error={error} />
+            <RepoInputForm onAnalyze={handleAnalyzeRepo} onOpenFile={handleOpenFile} error={error} />
           )}
-      {isLoading && <Loader />}
+      {isLoading && <Loader progress={jobProgress} startedAt={jobStartedAt} onCancel={jobStartedAt ? handleCancelAnalysis : undefined} />}
           {repoData && view === 'detail' && (
             <>
               <GitGalaxyCanvas 
@@ -367,25 +661,64 @@ const App: React.FC = () => {
                 onCommitSelect={setSelectedCommit} 
                 selectedCommit={selectedCommit}
                 filteredAuthor={filteredAuthor}
-                timelineCommitLimit={timelineCommitLimit}
+                highlightedCommits={highlightedCommits}
+                lineage={lineage}
+                timelineRange={timelineRange}
                 settings={settings}
                 pullRequests={pullRequests}
+                refs={refs}
+                focusRequest={focusRequest}
+                followCommit={followCommit}
+                onCompareSelect={handleCompareSelect}
+                highlightedPaths={comparePaths}
               />
+              <SearchPanel repoData={repoData} onResultSelect={handleSearchResult} />
               <CommitInfoPanel 
                 commit={selectedCommit} 
                 onClose={() => setSelectedCommit(null)}
                 repoUrl={currentRepoUrl || undefined}
+                offlineSource={offlineFileName}
+                lineageMode={lineageMode}
+                lineageSize={lineage?.size}
+                onLineageModeChange={setLineageMode}
               />
+              {comparePair && (
+                <ComparisonPanel
+                  base={comparePair.base}
+                  head={comparePair.head}
+                  repoUrl={currentRepoUrl || undefined}
+                  onComparisonLoaded={setComparison}
+                  onCommitJump={handleSearchResult}
+                  onSwap={() => setComparePair({ base: comparePair.head, head: comparePair.base })}
+                  onClose={closeComparison}
+                />
+              )}
               {repoData && authors.length > 0 && (
                 <AnalyticsPanel
                   authors={authors}
-                  commitCount={Object.keys(repoData).length}
+                  commitTimes={commitTimes}
                   filteredAuthor={filteredAuthor}
-                  timelineCommitLimit={timelineCommitLimit}
+                  timelineRange={timelineRange}
                   onAuthorFilterChange={setFilteredAuthor}
-                  onTimelineChange={setTimelineCommitLimit}
+                  onTimelineChange={setTimelineRange}
+                />
+              )}
+              {(currentRepoUrl || churn.length > 0) && (
+                <HotspotPanel
+                  churn={churn}
+                  activePath={pathFilter?.path ?? null}
+                  onSelectPath={currentRepoUrl ? handleSelectHotspot : undefined}
                 />
               )}
+              {currentRepoUrl && (
+                <PathFilterPanel
+                  key={currentRepoUrl}
+                  repoUrl={currentRepoUrl}
+                  activeFilter={pathFilter}
+                  onFilterChange={setPathFilter}
+                />
+              )}
+              <PlaybackControls key={currentRepoUrl || offlineFileName || ''} repoData={repoData} onFrame={handlePlaybackFrame} />
               <CustomizationPanel
                 settings={settings}
                 onSettingsChange={setSettings}
@@ -397,11 +730,27 @@ const App: React.FC = () => {
                   setView('constellation');
                   setRepoData(null);
                   setSelectedCommit(null);
+                  setOfflineFileName(null);
+                  setPathFilter(null);
+                  setFocusRequest(null);
+                  setFollowCommit(null);
+                  closeComparison();
                 }}
                 className="absolute bottom-3 sm:bottom-4 left-3 sm:left-4 px-3 sm:px-4 py-1.5 sm:py-2 bg-cyan-500/80 hover:bg-cyan-500 text-black font-mono font-bold rounded transition-colors z-50 text-xs sm:text-sm"
               >
                 Back to Repository List
               </button>
+              {currentRepoUrl && (
+                <button
+                  onClick={handleRefreshRepo}
+                  disabled={isRefreshing}
+                  title={error || (isLive ? 'Live: new pushes appear automatically. Click to fetch now' : 'Fetch commits pushed since the last analysis')}
+                  className="absolute bottom-3 sm:bottom-4 left-1/2 -translate-x-1/2 px-3 sm:px-4 py-1.5 sm:py-2 bg-black/60 border border-cyan-500/60 hover:bg-cyan-500/20 disabled:opacity-50 text-cyan-300 font-mono font-bold rounded transition-colors z-50 text-xs sm:text-sm"
+                >
+                  {isLive && <span className="text-green-400 mr-1.5">●</span>}
+                  {isRefreshing ? 'Refreshing...' : error ? 'Refresh failed - retry' : 'Refresh'}
+                </button>
+              )}
             </>
           )}
         </>
@@ -420,6 +769,11 @@ const App: React.FC = () => {
                 <p className="text-xs sm:text-sm font-mono text-white/40 hidden sm:block">Hover to see repository names</p>
                 <p className="text-xs sm:text-sm font-mono text-white/40">Pinch to zoom | Drag to rotate</p>
               </div>
+              {error && (
+                <p className="absolute bottom-3 sm:bottom-4 left-3 sm:left-4 max-w-md text-red-400/90 font-mono text-xs sm:text-sm bg-red-500/10 border border-red-500/20 p-2 sm:p-3 rounded break-words">
+                  {error}
+                </p>
+              )}
             </>
           )}
           
@@ -430,25 +784,64 @@ const App: React.FC = () => {
                 onCommitSelect={setSelectedCommit} 
                 selectedCommit={selectedCommit}
                 filteredAuthor={filteredAuthor}
-                timelineCommitLimit={timelineCommitLimit}
+                highlightedCommits={highlightedCommits}
+                lineage={lineage}
+                timelineRange={timelineRange}
                 settings={settings}
                 pullRequests={pullRequests}
+                refs={refs}
+                focusRequest={focusRequest}
+                followCommit={followCommit}
+                onCompareSelect={handleCompareSelect}
+                highlightedPaths={comparePaths}
               />
+              <SearchPanel repoData={repoData} onResultSelect={handleSearchResult} />
               <CommitInfoPanel 
                 commit={selectedCommit} 
                 onClose={() => setSelectedCommit(null)}
                 repoUrl={currentRepoUrl || undefined}
+                offlineSource={offlineFileName}
+                lineageMode={lineageMode}
+                lineageSize={lineage?.size}
+                onLineageModeChange={setLineageMode}
               />
+              {comparePair && (
+                <ComparisonPanel
+                  base={comparePair.base}
+                  head={comparePair.head}
+                  repoUrl={currentRepoUrl || undefined}
+                  onComparisonLoaded={setComparison}
+                  onCommitJump={handleSearchResult}
+                  onSwap={() => setComparePair({ base: comparePair.head, head: comparePair.base })}
+                  onClose={closeComparison}
+                />
+              )}
               {repoData && authors.length > 0 && (
                 <AnalyticsPanel
                   authors={authors}
-                  commitCount={Object.keys(repoData).length}
+                  commitTimes={commitTimes}
                   filteredAuthor={filteredAuthor}
-                  timelineCommitLimit={timelineCommitLimit}
+                  timelineRange={timelineRange}
                   onAuthorFilterChange={setFilteredAuthor}
-                  onTimelineChange={setTimelineCommitLimit}
+                  onTimelineChange={setTimelineRange}
+                />
+              )}
+              {(currentRepoUrl || churn.length > 0) && (
+                <HotspotPanel
+                  churn={churn}
+                  activePath={pathFilter?.path ?? null}
+                  onSelectPath={currentRepoUrl ? handleSelectHotspot : undefined}
                 />
               )}
+              {currentRepoUrl && (
+                <PathFilterPanel
+                  key={currentRepoUrl}
+                  repoUrl={currentRepoUrl}
+                  activeFilter={pathFilter}
+                  onFilterChange={setPathFilter}
+                />
+              )}
+              <PlaybackControls key={currentRepoUrl || offlineFileName || ''} repoData={repoData} onFrame={handlePlaybackFrame} />
               <CustomizationPanel
                 settings={settings}
                 onSettingsChange={setSettings}
@@ -460,20 +853,37 @@ const App: React.FC = () => {
                   setView('constellation');
                   setRepoData(null);
                   setSelectedCommit(null);
+                  setOfflineFileName(null);
+                  setPathFilter(null);
+                  setFocusRequest(null);
+                  setFollowCommit(null);
+                  closeComparison();
                 }}
                 className="absolute bottom-3 sm:bottom-4 left-3 sm:left-4 px-3 sm:px-4 py-1.5 sm:py-2 bg-cyan-500/80 hover:bg-cyan-500 text-black font-mono font-bold rounded transition-colors z-50 text-xs sm:text-sm"
               >
                 Back to Constellation
               </button>
+              {currentRepoUrl && (
+                <button
+                  onClick={handleRefreshRepo}
+                  disabled={isRefreshing}
+                  title={error || (isLive ? 'Live: new pushes appear automatically. Click to fetch now' : 'Fetch commits pushed since the last analysis')}
+                  className="absolute bottom-3 sm:bottom-4 left-1/2 -translate-x-1/2 px-3 sm:px-4 py-1.5 sm:py-2 bg-black/60 border border-cyan-500/60 hover:bg-cyan-500/20 disabled:opacity-50 text-cyan-300 font-mono font-bold rounded transition-colors z-50 text-xs sm:text-sm"
+                >
+                  {isLive && <span className="text-green-400 mr-1.5">●</span>}
+                  {isRefreshing ? 'Refreshing...' : error ? 'Refresh failed - retry' : 'Refresh'}
+                </button>
+              )}
               <div className="absolute bottom-0 right-0 p-3 sm:p-4 md:p-6 lg:p-8 pointer-events-none text-right">
                 <p className="text-xs sm:text-sm font-mono text-white/40">Tap a node to inspect</p>
                 <p className="text-xs sm:text-sm font-mono text-white/40 hidden sm:block">Drag to rotate | Scroll to zoom</p>
+                <p className="text-xs sm:text-sm font-mono text-white/40 hidden sm:block">Shift-click a second node to compare</p>
                 <p className="text-xs sm:text-sm font-mono text-white/40 sm:hidden">Drag to rotate | Pinch to zoom</p>
         </div>
             </>
           )}
           
-          {isLoading && <Loader />}
+          {isLoading && <Loader progress={jobProgress} startedAt={jobStartedAt} onCancel={jobStartedAt ? handleCancelAnalysis : undefined} />}
         </>
       )}
     </main>
@@ -0,0 +1,52 @@
+import { runGit } from './git.js';
+import { LOG_ARGS, parseGitLog } from './gitLog.js';
+import { calculateLayout } from './layout.js';
+import { REF_ARGS, HEAD_ARGS, parseRefs } from './gitRefs.js';
+import { collectChurn } from './churn.js';
+import type { AnalysisResult, Author, GitRef, JobProgress, RepoData } from './types.js';
+
+// Commit counts per author name
+export const countAuthors = (repoData: RepoData): Author[] => {
+    const authorMap = new Map<string, number>();
+    Object.values(repoData).forEach(node => {
+        const count = authorMap.get(node.author) || 0;
+        authorMap.set(node.author, count + 1);
+    });
+    return Array.from(authorMap.entries()).map(([name, count]) => ({ name, commitCount: count }));
+};
+
+// Branches and tags, anchored to commits we actually laid out
+export const readRefs = async (gitDir: string, repoData: RepoData): Promise<GitRef[]> => {
+    const headRef = (await runGit(HEAD_ARGS, { cwd: gitDir }).catch(() => '')).trim();
+    const refOutput = await runGit(REF_ARGS, { cwd: gitDir }).catch(() => '');
+    return parseRefs(refOutput, headRef).filter(ref => repoData[ref.target]);
+};
+
+// Reads the history selected by `revisionArgs` from a repository (bare or
+// working copy) and lays it out. Resolves with null for an empty history.
+export async function analyzeRepository(
+    gitDir: string,
+    revisionArgs: string[] = ['--all'],
+    { onProgress, signal }: { onProgress?: (progress: JobProgress) => void, signal?: AbortSignal } = {}
+): Promise<AnalysisResult | null> {
+    onProgress?.({ stage: 'reading', percent: null });
+    const logOutput = await runGit([...LOG_ARGS, ...revisionArgs], { cwd: gitDir, signal }).catch(() => {
+        throw new Error('Failed to read git log from the repository.');
+    });
+
+    const commits = parseGitLog(logOutput);
+
+    if (commits.size === 0) {
+        return null;
+    }
+
+    const churn = await collectChurn(gitDir, revisionArgs, [], signal);
+
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'layout', percent: null });
+    const repoData = calculateLayout(commits);
+    const authors = countAuthors(repoData);
+    const refs = await readRefs(gitDir, repoData);
+
+    return { repoData, authors, refs, churn };
+}
@@ -0,0 +1,153 @@
+import type { SqlConnection } from './migrations.js';
+import type { AnalysisDelta, AnalysisResult, Author, CommitNode, FileChurn, GitRef, RepoData } from './types.js';
+
+// Rows per INSERT statement; keeps every statement well below the bound
+// parameter limits of both drivers
+const ROWS_PER_INSERT = 500;
+
+async function insertRows(db: SqlConnection, table: string, columns: string[], rows: unknown[][], onConflict = '') {
+    const row = `(${columns.map(() => '?').join(', ')})`;
+    for (let start = 0; start < rows.length; start += ROWS_PER_INSERT) {
+        const chunk = rows.slice(start, start + ROWS_PER_INSERT);
+        await db.query(
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES ${chunk.map(() => row).join(', ')}${onConflict}`,
+            chunk.flat()
+        );
+    }
+}
+
+const COMMIT_COLUMNS = [
+    'repo_url', 'hash', 'seq', 'pos_x', 'pos_y', 'pos_z', 'message', 'body', 'author', 'author_email',
+    'author_time', 'committer', 'committer_email', 'commit_time', 'branch_color'
+];
+
+// Commits of an incremental refresh may already be stored when two refreshes
+// overlapped, so existing rows are kept rather than failing the insert
+async function insertCommits(db: SqlConnection, url: string, repoData: RepoData, firstSeq: number) {
+    const commits = Object.entries(repoData);
+    await insertRows(db, 'commits', COMMIT_COLUMNS, commits.map(([hash, node], index) => [
+        url, hash, firstSeq + index, node.pos[0], node.pos[1], node.pos[2], node.message, node.body ?? '',
+        node.author, node.authorEmail ?? '', node.authorTime ?? 0, node.committer ?? node.author,
+        node.committerEmail ?? '', node.commitTime ?? 0, node.branchColor ?? null
+    ]), ' ON CONFLICT (repo_url, hash) DO NOTHING');
+    await insertRows(db, 'commit_parents', ['repo_url', 'hash', 'position', 'parent'], commits.flatMap(([hash, node]) =>
+        (node.parents ?? (node.parent ? [node.parent] : [])).map((parent, position) => [url, hash, position, parent])
+    ), ' ON CONFLICT (repo_url, hash, position) DO NOTHING');
+}
+
+async function replaceRefs(db: SqlConnection, url: string, refs: GitRef[]) {
+    await db.query('DELETE FROM refs WHERE repo_url = ?', [url]);
+    await insertRows(db, 'refs', ['repo_url', 'seq', 'name', 'type', 'target', 'annotated', 'message', 'is_head'],
+        refs.map((ref, index) => [
+            url, index, ref.name, ref.type, ref.target, ref.annotated ? 1 : 0, ref.message ?? null, ref.isHead ? 1 : 0
+        ]));
+}
+
+async function replaceAuthors(db: SqlConnection, url: string, authors: Author[]) {
+    await db.query('DELETE FROM authors WHERE repo_url = ?', [url]);
+    await insertRows(db, 'authors', ['repo_url', 'seq', 'name', 'commit_count'],
+        authors.map((author, index) => [url, index, author.name, author.commitCount]));
+}
+
+async function replaceChurn(db: SqlConnection, url: string, churn: FileChurn[]) {
+    await db.query('DELETE FROM file_churn WHERE repo_url = ?', [url]);
+    await insertRows(db, 'file_churn', ['repo_url', 'path', 'commits', 'insertions', 'deletions', 'authors'],
+        churn.map(file => [url, file.path, file.commits, file.insertions, file.deletions, JSON.stringify(file.authors)]));
+}
+
+// Stores a complete analysis, replacing whatever was stored for the repository.
+// Callers run it inside a transaction.
+export async function writeAnalysis(
+    db: SqlConnection,
+    url: string,
+    data: AnalysisResult,
+    { analyzedAt, createdAt }: { analyzedAt: number, createdAt: number }
+) {
+    await db.query(
+        `INSERT INTO repos (url, analyzed_at, created_at, churn_collected) VALUES (?, ?, ?, ?)
+         ON CONFLICT (url) DO UPDATE SET analyzed_at = excluded.analyzed_at, churn_collected = excluded.churn_collected`,
+        [url, analyzedAt, createdAt, data.churn ? 1 : 0]
+    );
+    await db.query('DELETE FROM commit_parents WHERE repo_url = ?', [url]);
+    await db.query('DELETE FROM commits WHERE repo_url = ?', [url]);
+    await insertCommits(db, url, data.repoData, 0);
+    await replaceRefs(db, url, data.refs);
+    await replaceAuthors(db, url, data.authors);
+    await replaceChurn(db, url, data.churn ?? []);
+}
+
+// Adds the commits of an incremental refresh after the stored ones and replaces
+// the repository-wide refs, authors and churn. Callers run it inside a transaction.
+export async function appendAnalysis(db: SqlConnection, url: string, delta: AnalysisDelta, analyzedAt: number) {
+    const [{ next }] = await db.query('SELECT COALESCE(MAX(seq), -1) + 1 AS next FROM commits WHERE repo_url = ?', [url]);
+    await insertCommits(db, url, delta.added, Number(next));
+    await replaceRefs(db, url, delta.refs);
+    await replaceAuthors(db, url, delta.authors);
+    if (delta.churn) {
+        await replaceChurn(db, url, delta.churn);
+        await db.query('UPDATE repos SET analyzed_at = ?, churn_collected = 1 WHERE url = ?', [analyzedAt, url]);
+    } else {
+        await db.query('UPDATE repos SET analyzed_at = ? WHERE url = ?', [analyzedAt, url]);
+    }
+}
+
+// Reassembles the stored analysis of a repository, in the order it was produced
+export async function readAnalysis(db: SqlConnection, url: string, churnCollected: boolean): Promise<AnalysisResult> {
+    const commitRows = await db.query('SELECT * FROM commits WHERE repo_url = ? ORDER BY seq', [url]);
+    // By position first, so each commit's parents are pushed in git order
+    const parentRows = await db.query('SELECT hash, parent FROM commit_parents WHERE repo_url = ? ORDER BY position', [url]);
+    const refRows = await db.query('SELECT * FROM refs WHERE repo_url = ? ORDER BY seq', [url]);
+    const authorRows = await db.query('SELECT name, commit_count FROM authors WHERE repo_url = ? ORDER BY seq', [url]);
+
+    const parents = new Map<string, string[]>();
+    for (const row of parentRows) {
+        const list = parents.get(row.hash) ?? [];
+        list.push(row.parent);
+        parents.set(row.hash, list);
+    }
+
+    const repoData: RepoData = {};
+    for (const row of commitRows) {
+        const commitParents = parents.get(row.hash) ?? [];
+        const node: CommitNode = {
+            pos: [Number(row.pos_x), Number(row.pos_y), Number(row.pos_z)],
+            parent: commitParents[0] ?? null,
+            parents: commitParents,
+            message: row.message,
+            body: row.body,
+            author: row.author,
+            authorEmail: row.author_email,
+            authorTime: Number(row.author_time),
+            committer: row.committer,
+            committerEmail: row.committer_email,
+            commitTime: Number(row.commit_time)
+        };
+        if (row.branch_color != null) node.branchColor = row.branch_color;
+        repoData[row.hash] = node;
+    }
+
+    const refs: GitRef[] = refRows.map(row => {
+        const ref: GitRef = { name: row.name, type: row.type, target: row.target };
+        if (Number(row.annotated)) ref.annotated = true;
+        if (row.message != null) ref.message = row.message;
+        if (Number(row.is_head)) ref.isHead = true;
+        return ref;
+    });
+
+    const result: AnalysisResult = {
+        repoData,
+        authors: authorRows.map(row => ({ name: row.name, commitCount: Number(row.commit_count) })),
+        refs
+    };
+    if (churnCollected) {
+        const churnRows = await db.query('SELECT * FROM file_churn WHERE repo_url = ? ORDER BY path', [url]);
+        result.churn = churnRows.map(row => ({
+            path: row.path,
+            commits: Number(row.commits),
+            insertions: Number(row.insertions),
+            deletions: Number(row.deletions),
+            authors: JSON.parse(row.authors)
+        }));
+    }
+    return result;
+}
@@ -0,0 +1,74 @@
+import { calculateLayout } from './layout.js';
+import type { RawCommit } from './types.js';
+
+// Benchmarks calculateLayout on a synthetic history.
+// Usage: npm run bench:layout -- [commitCount] [branchProbability] [mergeProbability]
+
+const commitCount = parseInt(process.argv[2] || '100000', 10);
+const branchProbability = parseFloat(process.argv[3] || '0.05');
+const mergeProbability = parseFloat(process.argv[4] || '0.3');
+
+// Small deterministic PRNG so runs are comparable
+let seed = 42;
+const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+};
+
+const makeCommit = (index: number, parentHashes: string[]): RawCommit => ({
+    parentHashes,
+    message: `Commit ${index}`,
+    body: '',
+    author: `Author ${index % 17}`,
+    authorEmail: `author${index % 17}@example.com`,
+    authorTime: 1_500_000_000 + index * 60,
+    committer: `Author ${index % 17}`,
+    committerEmail: `author${index % 17}@example.com`,
+    commitTime: 1_500_000_000 + index * 60,
+});
+
+// Grows a mainline with feature branches that fork off, advance and
+// sometimes merge back, similar to a busy pull-request based repository
+const generateHistory = (count: number): Map<string, RawCommit> => {
+    const commits = new Map<string, RawCommit>();
+    const mainline = 'c0';
+    commits.set(mainline, makeCommit(0, []));
+    let mainTip = mainline;
+    const branchTips: string[] = [];
+
+    for (let i = 1; i < count; i++) {
+        const hash = `c${i}`;
+        const roll = random();
+
+        if (branchTips.length > 0 && roll < mergeProbability) {
+            // Merge a random feature branch into the mainline
+            const branchIndex = Math.floor(random() * branchTips.length);
+            const [branchTip] = branchTips.splice(branchIndex, 1);
+            commits.set(hash, makeCommit(i, [mainTip, branchTip]));
+            mainTip = hash;
+        } else if (roll < mergeProbability + branchProbability) {
+            // Start a new feature branch from the mainline
+            commits.set(hash, makeCommit(i, [mainTip]));
+            branchTips.push(hash);
+        } else if (branchTips.length > 0 && random() < 0.5) {
+            // Advance a random feature branch
+            const branchIndex = Math.floor(random() * branchTips.length);
+            commits.set(hash, makeCommit(i, [branchTips[branchIndex]]));
+            branchTips[branchIndex] = hash;
+        } else {
+            commits.set(hash, makeCommit(i, [mainTip]));
+            mainTip = hash;
+        }
+    }
+
+    return commits;
+};
+
+const commits = generateHistory(commitCount);
+
+const start = process.hrtime.bigint();
+const repoData = calculateLayout(commits);
+const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+const laneCount = new Set(Object.values(repoData).map(node => node.pos[0])).size;
+console.log(`Laid out ${Object.keys(repoData).length} commits in ${elapsedMs.toFixed(1)}ms (${laneCount} lanes used)`);
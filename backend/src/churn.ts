@@ -0,0 +1,76 @@
+import { runGit } from './git.js';
+import { parseNumstat } from './diffParser.js';
+import type { FileChurn } from './types.js';
+
+// Each commit starts with \x01 so commits can be split apart before their
+// NUL-separated numstat entries are parsed. Merge commits list no files.
+const CHURN_ARGS = ['log', '-z', '--numstat', '-M', '--format=%x01%H%x00%an'];
+
+interface ChurnStats {
+    commits: number;
+    insertions: number;
+    deletions: number;
+    authors: Set<string>;
+}
+
+// Collects per-file change statistics for the commits selected by
+// `revisionArgs`, newest first, so a rename can be applied to the older
+// history of the file as it is reached. `previous` is the churn of history
+// older than those commits, for extending an earlier analysis. Only files that
+// exist at HEAD are returned. `revisionInput` holds the revisions read when
+// `revisionArgs` includes `--stdin`.
+export async function collectChurn(gitDir: string, revisionArgs: string[], previous: FileChurn[] = [], signal?: AbortSignal, revisionInput?: string): Promise<FileChurn[]> {
+    const output = await runGit([...CHURN_ARGS, ...revisionArgs], { cwd: gitDir, signal, input: revisionInput }).catch(() => {
+        throw new Error('Failed to read change statistics from the repository.');
+    });
+
+    const stats = new Map<string, ChurnStats>();
+    // Old path -> path the file has now
+    const renamedTo = new Map<string, string>();
+    const currentPath = (path: string) => renamedTo.get(path) ?? path;
+
+    const record = (path: string, commits: number, insertions: number, deletions: number, authors: Iterable<string>) => {
+        let entry = stats.get(path);
+        if (!entry) {
+            entry = { commits: 0, insertions: 0, deletions: 0, authors: new Set() };
+            stats.set(path, entry);
+        }
+        entry.commits += commits;
+        entry.insertions += insertions;
+        entry.deletions += deletions;
+        for (const author of authors) entry.authors.add(author);
+    };
+
+    output.split('\x01').forEach(chunk => {
+        const separator = chunk.indexOf('\0');
+        const authorEnd = chunk.indexOf('\0', separator + 1);
+        if (separator < 0 || authorEnd < 0) return;
+        const author = chunk.slice(separator + 1, authorEnd);
+
+        parseNumstat(chunk.slice(authorEnd + 1).replace(/^\n/, '')).forEach(entry => {
+            const path = currentPath(entry.path);
+            if (entry.oldPath) {
+                renamedTo.set(entry.oldPath, path);
+            }
+            record(path, 1, entry.insertions, entry.deletions, [author]);
+        });
+    });
+
+    previous.forEach(file => {
+        record(currentPath(file.path), file.commits, file.insertions, file.deletions, file.authors);
+    });
+
+    const headFiles = new Set(
+        (await runGit(['ls-tree', '-r', '-z', '--name-only', 'HEAD'], { cwd: gitDir }).catch(() => '')).split('\0')
+    );
+
+    return Array.from(stats.entries())
+        .filter(([path]) => headFiles.has(path))
+        .map(([path, entry]) => ({
+            path,
+            commits: entry.commits,
+            insertions: entry.insertions,
+            deletions: entry.deletions,
+            authors: Array.from(entry.authors)
+        }));
+}
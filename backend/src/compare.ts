@@ -0,0 +1,35 @@
+import { runGit } from './git.js';
+import { parseNumstat } from './diffParser.js';
+import type { CommitComparison } from './types.js';
+
+const resolveCommit = async (gitDir: string, hash: string) =>
+    (await runGit(['rev-parse', '--verify', '--quiet', `${hash}^{commit}`], { cwd: gitDir })).trim();
+
+// Merge base, ahead/behind counts and the aggregate diff stat from `base` to `head`
+export async function compareCommits(gitDir: string, base: string, head: string): Promise<CommitComparison> {
+    const [baseCommit, headCommit] = await Promise.all([resolveCommit(gitDir, base), resolveCommit(gitDir, head)]);
+
+    const [mergeBase, counts, numstat] = await Promise.all([
+        // Exits non-zero when the histories share no commit
+        runGit(['merge-base', baseCommit, headCommit], { cwd: gitDir }).catch(() => ''),
+        runGit(['rev-list', '--left-right', '--count', `${baseCommit}...${headCommit}`], { cwd: gitDir }),
+        runGit(['diff-tree', '-r', '-M', '--numstat', '-z', baseCommit, headCommit], { cwd: gitDir }),
+    ]);
+
+    // Left side (only in base) first, then right side (only in head)
+    const [behind, ahead] = counts.trim().split(/\s+/).map(count => parseInt(count, 10) || 0);
+    const files = parseNumstat(numstat);
+
+    return {
+        base: baseCommit,
+        head: headCommit,
+        mergeBase: mergeBase.trim() || null,
+        ahead: ahead || 0,
+        behind: behind || 0,
+        diff: {
+            filesChanged: files.length,
+            insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+            deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        },
+    };
+}
@@ -1,183 +1,157 @@
 import * as path from 'path';
-import * as fs from 'fs';
 import { fileURLToPath } from 'url';
-import type { RepoData } from './types.js';
+import { createSqliteStore } from './sqliteStore.js';
+import { createPostgresStore } from './postgresStore.js';
+import { createMemoryStore } from './memoryStore.js';
+import type { JobOutcome, RepoStore, StorageDriver } from './repoStore.js';
+import type { AnalysisResult, AnalysisDelta, JobKind, JobRecord, MirrorRecord, RepoAccess } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Support both PostgreSQL (via DATABASE_URL) and SQLite (fallback)
+// PostgreSQL when DATABASE_URL is set, SQLite otherwise; STORAGE_DRIVER
+// overrides the choice, e.g. `memory` to run without any database
 const DATABASE_URL = process.env.DATABASE_URL;
-const usePostgres = !!DATABASE_URL;
-
-let sqliteDb: any = null;
-let pgClient: any = null;
-let dbInitialized = false;
-
-// SQLite implementation (for local development)
-async function initSqlite() {
-    if (sqliteDb) return sqliteDb;
-    
-    const Database = (await import('better-sqlite3')).default;
-    const DB_PATH = path.join(__dirname, '../data/repos.db');
-    const DB_DIR = path.dirname(DB_PATH);
-    
-    if (!fs.existsSync(DB_DIR)) {
-        fs.mkdirSync(DB_DIR, { recursive: true });
-    }
-    
-    sqliteDb = new Database(DB_PATH);
-    sqliteDb.exec(`
-        CREATE TABLE IF NOT EXISTS repos (
-            url TEXT PRIMARY KEY,
-            data TEXT NOT NULL,
-            timestamp INTEGER NOT NULL,
-            created_at INTEGER NOT NULL
-        )
-    `);
-    
-    return sqliteDb;
-}
-
-// PostgreSQL implementation (for Koyeb database service)
-async function initPostgres() {
-    if (pgClient) return pgClient;
-    
-    const pg = await import('pg');
-    const { Client } = pg;
-    pgClient = new Client({
-        connectionString: DATABASE_URL,
-        ssl: DATABASE_URL?.includes('koyeb.app') || DATABASE_URL?.includes('amazonaws.com') || DATABASE_URL?.includes('googleapis.com') || DATABASE_URL?.includes('render.com') || DATABASE_URL?.includes('supabase.co')
-            ? { rejectUnauthorized: false } 
-            : false
-    });
-    
-    // Add error handlers to prevent crashes
-    pgClient.on('error', (err: Error) => {
-        console.error('[DATABASE] PostgreSQL client error:', err.message);
-        // Don't crash - connection will be retried on next query
-        // Reset client so it can reconnect
-        pgClient = null;
-    });
-    
-    try {
-        await pgClient.connect();
-    } catch (error: any) {
-        console.error('[DATABASE] Failed to connect to PostgreSQL:', error.message);
-        pgClient = null;
-        throw error;
-    }
-    
-    // Create repos table if it doesn't exist
-    await pgClient.query(`
-        CREATE TABLE IF NOT EXISTS repos (
-            url TEXT PRIMARY KEY,
-            data TEXT NOT NULL,
-            timestamp BIGINT NOT NULL,
-            created_at BIGINT NOT NULL
-        )
-    `);
-    
-    return pgClient;
-}
-
-export async function initDb() {
-    if (dbInitialized) {
-        return usePostgres ? pgClient : sqliteDb;
-    }
-    
-    if (usePostgres) {
-        await initPostgres();
-    } else {
-        await initSqlite();
-    }
-    
-    dbInitialized = true;
-    return usePostgres ? pgClient : sqliteDb;
-}
-
-export async function getRepo(url: string): Promise<{ data: RepoData, authors: any[] } | null> {
-    await initDb();
-    
-    if (usePostgres && pgClient) {
-        const result = await pgClient.query('SELECT data, timestamp FROM repos WHERE url = $1', [url]);
-        if (result.rows.length === 0) {
-            return null;
-        }
-        
-        const row = result.rows[0];
-        const oneHour = 60 * 60 * 1000;
-        if (Date.now() - parseInt(row.timestamp) > oneHour) {
-            return null; // Stale
-        }
-        
-        return JSON.parse(row.data);
-    } else if (sqliteDb) {
-        const row = sqliteDb.prepare('SELECT data, timestamp FROM repos WHERE url = ?').get(url) as any;
-        
-        if (!row) {
-            return null;
-        }
-        
-        const oneHour = 60 * 60 * 1000;
-        if (Date.now() - row.timestamp > oneHour) {
-            return null; // Stale
-        }
-        
-        return JSON.parse(row.data);
-    }
-    
-    return null;
-}
-
-export async function storeRepo(url: string, data: { repoData: RepoData, authors: any[] }) {
-    await initDb();
-    const now = Date.now();
-    
-    if (usePostgres && pgClient) {
-        await pgClient.query(
-            `INSERT INTO repos (url, data, timestamp, created_at) 
-             VALUES ($1, $2, $3, $4)
-             ON CONFLICT (url) DO UPDATE SET data = $2, timestamp = $3`,
-            [url, JSON.stringify(data), now, now]
-        );
-    } else if (sqliteDb) {
-        sqliteDb.prepare(`
-            INSERT OR REPLACE INTO repos (url, data, timestamp, created_at)
-            VALUES (?, ?, ?, ?)
-        `).run(url, JSON.stringify(data), now, now);
+const STORAGE_DRIVER = (process.env.STORAGE_DRIVER?.trim() || (DATABASE_URL ? 'postgres' : 'sqlite')) as StorageDriver;
+
+function createStore(): RepoStore {
+    switch (STORAGE_DRIVER) {
+        case 'postgres':
+            if (!DATABASE_URL) {
+                throw new Error('STORAGE_DRIVER=postgres requires DATABASE_URL');
+            }
+            return createPostgresStore(DATABASE_URL);
+        case 'sqlite':
+            return createSqliteStore(path.join(__dirname, '../data/repos.db'));
+        case 'memory':
+            return createMemoryStore();
+        default:
+            throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}" (expected sqlite, postgres or memory)`);
     }
 }
 
-export async function updateRepo(url: string, delta: RepoData) {
-    await initDb();
-    
-    if (usePostgres && pgClient) {
-        const result = await pgClient.query('SELECT data FROM repos WHERE url = $1', [url]);
-        if (result.rows.length === 0) {
-            return;
-        }
-        
-        const existing = JSON.parse(result.rows[0].data);
-        const updated = {
-            repoData: { ...existing.repoData, ...delta },
-            authors: existing.authors
-        };
-        
-        await storeRepo(url, updated);
-    } else if (sqliteDb) {
-        const row = sqliteDb.prepare('SELECT data FROM repos WHERE url = ?').get(url) as any;
-        
-        if (!row) {
-            return;
-        }
-        
-        const existing = JSON.parse(row.data);
-        const updated = {
-            repoData: { ...existing.repoData, ...delta },
-            authors: existing.authors
-        };
-        
-        await storeRepo(url, updated);
+const store = createStore();
+
+let initialized: Promise<void> | null = null;
+
+// Connects and applies pending schema migrations. Resolves with the migrations
+// applied now and the resulting schema version, or null for the memory store.
+export const migrateDb = () => store.init();
+
+export function initDb(): Promise<void> {
+    if (!initialized) {
+        initialized = migrateDb().then(report => {
+            console.log(`[DATABASE] Using ${store.driver} storage`);
+            if (report && report.applied.length > 0) {
+                console.log(`[DATABASE] Applied migrations: ${report.applied.join(', ')}`);
+            }
+        });
+        // A failed start is retried on the next call
+        initialized.catch(() => { initialized = null; });
     }
+    return initialized;
+}
+
+// Cached analyses older than this are not served by getRepo, but are still
+// used as the base for incremental refreshes
+const CACHE_TTL = 60 * 60 * 1000;
+
+export async function getRepo(url: string, options: { allowStale?: boolean } = {}): Promise<AnalysisResult | null> {
+    await initDb();
+    return store.getRepo(url, options.allowStale ? 0 : Date.now() - CACHE_TTL);
+}
+
+export async function storeRepo(url: string, data: AnalysisResult, access: RepoAccess) {
+    await initDb();
+    await store.storeRepo(url, data, access);
+}
+
+export async function updateRepo(url: string, delta: AnalysisDelta, access: RepoAccess) {
+    await initDb();
+    await store.updateRepo(url, delta, access);
+}
+
+export async function getRepoAccess(url: string): Promise<RepoAccess | null> {
+    await initDb();
+    return store.getRepoAccess(url);
+}
+
+export async function grantRepoAccess(url: string, credentialId: string, expiresAt: number) {
+    await initDb();
+    await store.grantRepoAccess(url, credentialId, expiresAt);
+}
+
+export async function hasRepoGrant(url: string, credentialId: string): Promise<boolean> {
+    await initDb();
+    return store.hasRepoGrant(url, credentialId, Date.now());
+}
+
+export async function getMirror(url: string): Promise<MirrorRecord | null> {
+    await initDb();
+    return store.getMirror(url);
+}
+
+export async function listMirrors(): Promise<MirrorRecord[]> {
+    await initDb();
+    return store.listMirrors();
+}
+
+export async function storeMirror(mirror: MirrorRecord) {
+    await initDb();
+    await store.storeMirror(mirror);
+}
+
+export async function deleteMirror(url: string) {
+    await initDb();
+    await store.deleteMirror(url);
+}
+
+export async function insertJob(id: string, kind: JobKind, repoUrl: string, credentialId: string | null) {
+    await initDb();
+    await store.insertJob(id, kind, repoUrl, credentialId);
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+    await initDb();
+    return store.getJob(id);
+}
+
+export async function findActiveJob(
+    kind: JobKind,
+    repoUrl: string,
+    credentialId: string | null,
+    includeRunning = true
+): Promise<JobRecord | null> {
+    await initDb();
+    return store.findActiveJob(kind, repoUrl, credentialId, includeRunning);
+}
+
+export async function claimNextJob(): Promise<JobRecord | null> {
+    await initDb();
+    return store.claimNextJob();
+}
+
+export async function finishJob(id: string, outcome: JobOutcome) {
+    await initDb();
+    await store.finishJob(id, outcome);
+}
+
+export async function retryJob(id: string, runAfter: number, error: string) {
+    await initDb();
+    await store.retryJob(id, runAfter, error);
+}
+
+export async function cancelPendingJob(id: string): Promise<boolean> {
+    await initDb();
+    return store.cancelPendingJob(id);
+}
+
+export async function recoverInterruptedJobs(maxAttempts: number): Promise<number> {
+    await initDb();
+    return store.recoverInterruptedJobs(maxAttempts);
+}
+
+export async function deleteFinishedJobs(cutoff: number) {
+    await initDb();
+    await store.deleteFinishedJobs(cutoff);
 }
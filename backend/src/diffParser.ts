@@ -0,0 +1,205 @@
+import { runGit } from './git.js';
+import type { CommitDiff, DiffHunk, FileChangeStatus, FileDiff } from './types.js';
+
+// Files with more changed lines than this are listed without their patch
+const MAX_FILE_CHANGED_LINES = 1500;
+// Patches are returned for at most this many lines in total, biggest commits
+// get the rest of their files collapsed
+const MAX_TOTAL_CHANGED_LINES = 10000;
+
+// Lockfiles, bundles, source maps, snapshots and vendored or build output:
+// reviewers almost never want to read these line by line
+const GENERATED_PATTERNS = [
+    /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock|Pipfile\.lock|go\.sum|flake\.lock)$/,
+    /\.min\.(js|css)$/,
+    /\.(js|css)\.map$/,
+    /\.snap$/,
+    /(^|\/)(dist|build|vendor|node_modules|__generated__)\//,
+    /\.(pb\.go|pb\.cc|pb\.h)$/,
+    /_pb2(_grpc)?\.py$/,
+    /\.generated\.[^/]+$/,
+];
+
+const STATUS_NAMES: Record<string, FileChangeStatus> = {
+    A: 'added',
+    M: 'modified',
+    R: 'renamed',
+    D: 'deleted',
+    T: 'typechange',
+};
+
+export interface NumstatEntry {
+    path: string;
+    oldPath: string | null;
+    insertions: number;
+    deletions: number;
+    binary: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Options shared by every diff-tree call so they list files in the same order
+const diffTreeArgs = (base: string, hash: string) => ['diff-tree', '-r', '-M', '--no-color', '--no-ext-diff', base, hash];
+
+export const isGeneratedPath = (filePath: string) => GENERATED_PATTERNS.some(pattern => pattern.test(filePath));
+
+// `--name-status -z`: `M\0path\0`, or `R087\0old\0new\0` for renames
+const parseNameStatus = (output: string): { status: FileChangeStatus, path: string, oldPath: string | null }[] => {
+    const fields = output.split('\0');
+    const entries = [];
+    let i = 0;
+    while (i < fields.length && fields[i]) {
+        const code = fields[i][0];
+        if (code === 'R' || code === 'C') {
+            entries.push({ status: STATUS_NAMES.R, oldPath: fields[i + 1], path: fields[i + 2] });
+            i += 3;
+        } else {
+            entries.push({ status: STATUS_NAMES[code] || 'modified', oldPath: null, path: fields[i + 1] });
+            i += 2;
+        }
+    }
+    return entries;
+};
+
+// `--numstat -z`: `ins\tdel\tpath\0`, or `ins\tdel\t\0old\0new\0` for renames.
+// Binary files report `-` for both counts.
+export const parseNumstat = (output: string): NumstatEntry[] => {
+    const fields = output.split('\0');
+    const entries: NumstatEntry[] = [];
+    let i = 0;
+    while (i < fields.length && fields[i]) {
+        const [insertions, deletions, path] = fields[i].split('\t');
+        const binary = insertions === '-' && deletions === '-';
+        entries.push({
+            path: path || fields[i + 2],
+            oldPath: path ? null : fields[i + 1],
+            insertions: binary ? 0 : parseInt(insertions, 10) || 0,
+            deletions: binary ? 0 : parseInt(deletions, 10) || 0,
+            binary,
+        });
+        i += path ? 1 : 3;
+    }
+    return entries;
+};
+
+// Paths with special characters are printed C-quoted, e.g. `"a/tab\there"`,
+// with non-ASCII bytes as octal escapes
+const GIT_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+const unquotePath = (quoted: string): string => {
+    if (!quoted.startsWith('"')) return quoted;
+    const bytes: number[] = [];
+    for (let i = 1; i < quoted.length - 1; i++) {
+        if (quoted[i] !== '\\') {
+            bytes.push(...Buffer.from(quoted[i]));
+        } else if (/[0-7]/.test(quoted[i + 1])) {
+            bytes.push(parseInt(quoted.slice(i + 1, i + 4), 8));
+            i += 3;
+        } else {
+            bytes.push(GIT_ESCAPES[quoted[i + 1]] ?? quoted.charCodeAt(i + 1));
+            i += 1;
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+};
+
+// New path of a `diff --git a/<old> b/<new>` header. Both sides are the same
+// unless the file was renamed, in which case the `rename to` line that follows
+// names it unambiguously.
+const headerPath = (header: string): string | null => {
+    const rest = header.slice('diff --git '.length);
+    const quoted = /"((?:[^"\\]|\\.)*)"$/.exec(rest);
+    if (quoted) {
+        return unquotePath(quoted[0]).replace(/^b\//, '');
+    }
+    const path = rest.slice(2, 2 + (rest.length - 5) / 2);
+    return rest === `a/${path} b/${path}` ? path : null;
+};
+
+// Splits a `-p` patch into the hunks of each `diff --git` section, keyed by
+// the new path of the file the section is about
+export const parsePatch = (patch: string): Map<string, DiffHunk[]> => {
+    const files = new Map<string, DiffHunk[]>();
+    let hunks: DiffHunk[] | null = null;
+    let hunk: DiffHunk | null = null;
+
+    patch.split('\n').forEach(line => {
+        if (line.startsWith('diff --git ')) {
+            hunks = [];
+            hunk = null;
+            const path = headerPath(line);
+            if (path !== null) files.set(path, hunks);
+            return;
+        }
+        if (!hunks) return;
+        if (!hunk && line.startsWith('rename to ')) {
+            files.set(unquotePath(line.slice('rename to '.length)), hunks);
+            return;
+        }
+
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            hunk = { header: line, oldStart: parseInt(header[1], 10), newStart: parseInt(header[2], 10), lines: [] };
+            hunks.push(hunk);
+        } else if (hunk && (line[0] === ' ' || line[0] === '+' || line[0] === '-' || line[0] === '\\')) {
+            hunk.lines.push(line);
+        }
+    });
+
+    return files;
+};
+
+// Diffs a commit against its first parent, or against the empty tree for a root commit
+export async function getCommitDiff(gitDir: string, hash: string): Promise<CommitDiff> {
+    const commit = (await runGit(['rev-parse', '--verify', '--quiet', `${hash}^{commit}`], { cwd: gitDir })).trim();
+    const parent = (await runGit(['rev-parse', '--verify', '--quiet', `${commit}^1`], { cwd: gitDir }).catch(() => '')).trim();
+    const base = parent || (await runGit(['hash-object', '-t', 'tree', '/dev/null'], { cwd: gitDir })).trim();
+
+    const [nameStatus, numstat] = await Promise.all([
+        runGit([...diffTreeArgs(base, commit), '--name-status', '-z'], { cwd: gitDir }),
+        runGit([...diffTreeArgs(base, commit), '--numstat', '-z'], { cwd: gitDir }),
+    ]);
+    const statuses = parseNameStatus(nameStatus);
+    const counts = parseNumstat(numstat);
+
+    let budget = MAX_TOTAL_CHANGED_LINES;
+    const files: FileDiff[] = statuses.map((entry, index) => {
+        const { insertions, deletions, binary } = counts[index] || { insertions: 0, deletions: 0, binary: false };
+        const changed = insertions + deletions;
+
+        let collapsed: FileDiff['collapsed'] = null;
+        if (binary) {
+            collapsed = 'binary';
+        } else if (isGeneratedPath(entry.path)) {
+            collapsed = 'generated';
+        } else if (changed > MAX_FILE_CHANGED_LINES || changed > budget) {
+            collapsed = 'large';
+        } else {
+            budget -= changed;
+        }
+
+        return { ...entry, insertions, deletions, binary, collapsed, hunks: [] };
+    });
+
+    // Patches only for files that are shown; both paths of a rename are needed
+    // for git to pair them up again. Type changes are skipped because git prints
+    // them as a deletion plus an addition of the same path.
+    const shown = files.filter(file => !file.collapsed && file.status !== 'typechange' && (file.insertions > 0 || file.deletions > 0));
+    if (shown.length > 0) {
+        const pathspecs = shown.flatMap(file => file.oldPath ? [file.oldPath, file.path] : [file.path]).map(p => `:(literal)${p}`);
+        const patch = await runGit([...diffTreeArgs(base, commit), '-p', '--', ...pathspecs], { cwd: gitDir });
+        const sections = parsePatch(patch);
+        shown.forEach(file => {
+            file.hunks = sections.get(file.path) || [];
+        });
+    }
+
+    return {
+        hash: commit,
+        base: parent || null,
+        filesChanged: files.length,
+        insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+        deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        files,
+    };
+}
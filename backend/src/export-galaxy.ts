@@ -0,0 +1,88 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { runGit } from './git.js';
+import { analyzeRepository } from './analysis.js';
+
+// Exports a local repository as galaxy JSON, in the same shape as the result of
+// /api/job/:id/status, for repositories the backend cannot reach.
+// Usage: npm run export -- [repoPath] [--branch <name>]... [--max-count <n>] [--output <file>]
+
+const USAGE = `Usage: npm run export -- [repoPath] [options]
+
+Options:
+  -b, --branch <name>     Branch, tag or other revision to export (repeatable; default: all refs)
+  -n, --max-count <n>     Export at most n commits, newest first
+  -o, --output <file>     Output file (default: galaxy.json, "-" for stdout)
+  -h, --help              Show this help`;
+
+const fail = (message: string): never => {
+    console.error(`export-galaxy: ${message}`);
+    process.exit(1);
+};
+
+const { values, positionals } = parseArgs({
+    options: {
+        branch: { type: 'string', short: 'b', multiple: true },
+        'max-count': { type: 'string', short: 'n' },
+        output: { type: 'string', short: 'o', default: 'galaxy.json' },
+        help: { type: 'boolean', short: 'h', default: false }
+    },
+    allowPositionals: true
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+if (positionals.length > 1) {
+    fail(`expected a single repository path\n\n${USAGE}`);
+}
+
+// npm runs scripts from backend/, so resolve paths against where it was invoked
+const invokedFrom = process.env.INIT_CWD || process.cwd();
+const repoPath = path.resolve(invokedFrom, positionals[0] || '.');
+
+const revisionArgs: string[] = [];
+if (values['max-count'] !== undefined) {
+    const maxCount = Number(values['max-count']);
+    if (!Number.isInteger(maxCount) || maxCount <= 0) {
+        fail(`--max-count must be a positive integer, got "${values['max-count']}"`);
+    }
+    revisionArgs.push(`--max-count=${maxCount}`);
+}
+if (values.branch && values.branch.length > 0) {
+    // Branch names are passed after --end-of-options so none can be read as an option
+    revisionArgs.push('--end-of-options', ...values.branch);
+} else {
+    revisionArgs.push('--all');
+}
+
+(async () => {
+    try {
+        await runGit(['rev-parse', '--git-dir'], { cwd: repoPath }).catch(() => {
+            throw new Error(`${repoPath} is not a git repository`);
+        });
+        for (const branch of values.branch || []) {
+            await runGit(['rev-parse', '--verify', '--quiet', '--end-of-options', `${branch}^{commit}`], { cwd: repoPath }).catch(() => {
+                throw new Error(`unknown branch or revision "${branch}"`);
+            });
+        }
+
+        const result = await analyzeRepository(repoPath, revisionArgs);
+        if (!result) {
+            throw new Error('no commits to export');
+        }
+
+        const json = JSON.stringify(result);
+        if (values.output === '-') {
+            process.stdout.write(json);
+        } else {
+            const outputPath = path.resolve(invokedFrom, values.output!);
+            await fs.writeFile(outputPath, json);
+            console.error(`Exported ${Object.keys(result.repoData).length} commits, ${result.authors.length} authors and ${result.refs.length} refs to ${outputPath}`);
+        }
+    } catch (error: any) {
+        fail(error.message);
+    }
+})();
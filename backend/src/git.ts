@@ -0,0 +1,122 @@
+import { spawn } from 'child_process';
+
+// stderr of network failures that tend to go away when the command is retried
+const TRANSIENT_GIT_ERRORS = [
+    /could not resolve host/i,
+    /connection (timed out|reset|refused)/i,
+    /operation timed out/i,
+    /early eof/i,
+    /the remote end hung up/i,
+    /rpc failed/i,
+    /returned error: (429|5\d\d)/i,
+    /temporary failure/i,
+];
+
+// A remote could not be reached right now; the same operation may succeed later
+export class TransientGitError extends Error {}
+
+export const isTransientGitError = (message: string) => TRANSIENT_GIT_ERRORS.some(pattern => pattern.test(message));
+
+interface RunGitOptions {
+    cwd: string;
+    env?: NodeJS.ProcessEnv;
+    timeout?: number;
+    // Receives stderr as it is written, e.g. the output of `--progress`
+    onStderr?: (chunk: string) => void;
+    // Kills git, and the helpers it started, when aborted
+    signal?: AbortSignal;
+    // Written to stdin, e.g. revisions for `--stdin` that could exceed the
+    // command line length limit
+    input?: string;
+}
+
+// Stdout beyond this is a runaway command rather than a large repository
+const MAX_OUTPUT_BYTES = 512 * 1024 * 1024;
+
+// Runs git with an argument list (no shell involved) and resolves with stdout.
+// Logs and ref listings of large repositories easily exceed exec's 1MB default
+// buffer, so output is collected here rather than with execFile.
+export function runGit(args: string[], options: RunGitOptions): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const { signal } = options;
+        const child = spawn('git', args, {
+            cwd: options.cwd,
+            env: options.env,
+            // Own process group, so aborting reaches git-remote-https, index-pack & co. too
+            detached: Boolean(signal)
+        });
+
+        const stdout: Buffer[] = [];
+        let stdoutBytes = 0;
+        let stderr = '';
+        let failure: string | null = null;
+
+        const kill = (reason: string) => {
+            failure ??= reason;
+            try {
+                if (signal) process.kill(-child.pid!, 'SIGTERM');
+                else child.kill();
+            } catch {
+                child.kill();
+            }
+        };
+        const abort = () => kill('The operation was aborted');
+        const timer = options.timeout ? setTimeout(() => kill('git timed out'), options.timeout) : null;
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            stdoutBytes += chunk.length;
+            if (stdoutBytes > MAX_OUTPUT_BYTES) {
+                kill('git produced too much output');
+                return;
+            }
+            stdout.push(chunk);
+        });
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            stderr += chunk;
+            options.onStderr?.(chunk);
+        });
+
+        if (options.input !== undefined) {
+            // git may exit before reading everything, e.g. when it fails early
+            child.stdin.on('error', () => {});
+            child.stdin.end(options.input);
+        }
+
+        if (signal?.aborted) abort();
+        else signal?.addEventListener('abort', abort, { once: true });
+
+        // git could not be started at all
+        child.on('error', error => {
+            if (timer) clearTimeout(timer);
+            reject(error);
+        });
+        child.on('close', code => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', abort);
+            if (failure || code !== 0) {
+                return reject(new Error(failure ?? (stderr.trim() || `git exited with code ${code}`)));
+            }
+            resolve(Buffer.concat(stdout).toString('utf8'));
+        });
+    });
+}
+
+// Percentages of the transfer phases of `git clone/fetch --progress`. Receiving
+// objects dominates the transfer, resolving deltas is the short tail after it.
+const TRANSFER_PHASES: [RegExp, number, number][] = [
+    [/Receiving objects:\s+(\d+)%/g, 0, 90],
+    [/Resolving deltas:\s+(\d+)%/g, 90, 100],
+];
+
+// Overall transfer percentage of the latest progress line in `chunk`, or null
+// when it has none (e.g. the remote is still counting objects)
+export const parseTransferProgress = (chunk: string): number | null => {
+    let percent: number | null = null;
+    for (const [pattern, from, to] of TRANSFER_PHASES) {
+        for (const match of chunk.matchAll(pattern)) {
+            percent = from + Math.round((parseInt(match[1], 10) * (to - from)) / 100);
+        }
+    }
+    return percent;
+};
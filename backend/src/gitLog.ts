@@ -0,0 +1,49 @@
+import type { RawCommit } from './types.js';
+
+// Fields requested from `git log`, in order. Fields are NUL-separated and, because
+// the log is run with `-z`, commit records are NUL-terminated as well. NUL can
+// never appear inside a commit message, so subjects containing `|` and
+// multi-line bodies are parsed safely.
+const LOG_FIELDS = [
+    '%H',  // hash
+    '%P',  // parent hashes (space separated)
+    '%an', // author name
+    '%ae', // author email
+    '%at', // author date (unix seconds)
+    '%cn', // committer name
+    '%ce', // committer email
+    '%ct', // commit date (unix seconds)
+    '%s',  // subject
+    '%b',  // body
+];
+
+export const LOG_FORMAT = LOG_FIELDS.join('%x00');
+
+// Arguments for `git log` that produce output understood by parseGitLog
+export const LOG_ARGS = ['log', '-z', `--format=${LOG_FORMAT}`];
+
+export const parseGitLog = (output: string): Map<string, RawCommit> => {
+    const commits = new Map<string, RawCommit>();
+    const fields = output.split('\0');
+
+    for (let i = 0; i + LOG_FIELDS.length <= fields.length; i += LOG_FIELDS.length) {
+        const [hash, parentHashesStr, author, authorEmail, authorTime, committer, committerEmail, commitTime, message, body] =
+            fields.slice(i, i + LOG_FIELDS.length);
+
+        if (!hash) continue;
+
+        commits.set(hash, {
+            parentHashes: parentHashesStr ? parentHashesStr.split(' ').filter(Boolean) : [],
+            message,
+            body: body.replace(/\n+$/, ''),
+            author: author || 'Unknown',
+            authorEmail,
+            authorTime: parseInt(authorTime, 10) || 0,
+            committer: committer || 'Unknown',
+            committerEmail,
+            commitTime: parseInt(commitTime, 10) || 0,
+        });
+    }
+
+    return commits;
+};
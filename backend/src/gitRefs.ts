@@ -0,0 +1,58 @@
+import type { GitRef } from './types.js';
+
+// Fields requested from `git for-each-ref`. Fields are NUL-separated and each
+// record ends with NUL + the newline for-each-ref adds, so multi-line tag
+// messages are parsed safely.
+const REF_FIELDS = [
+    '%(refname)',
+    '%(symref)',       // set for symbolic refs such as refs/remotes/origin/HEAD
+    '%(objecttype)',   // 'tag' for annotated tags, 'commit' for everything else we care about
+    '%(objectname)',
+    '%(*objectname)',  // commit an annotated tag points to
+    '%(contents)',     // annotated tag message
+];
+
+export const REF_ARGS = [
+    'for-each-ref',
+    `--format=${REF_FIELDS.join('%00')}%00`,
+    'refs/heads',
+    'refs/remotes',
+    'refs/tags'
+];
+
+export const HEAD_ARGS = ['symbolic-ref', '--quiet', 'HEAD'];
+
+export const parseRefs = (output: string, headRef?: string | null): GitRef[] => {
+    const refs: GitRef[] = [];
+
+    output.split('\0\n').forEach(record => {
+        const [refName, symref, objectType, objectName, peeledName, contents] = record.split('\0');
+        if (!refName || symref) return;
+
+        if (refName.startsWith('refs/heads/')) {
+            refs.push({
+                name: refName.slice('refs/heads/'.length),
+                type: 'branch',
+                target: objectName,
+                isHead: refName === headRef
+            });
+        } else if (refName.startsWith('refs/remotes/')) {
+            refs.push({
+                name: refName.slice('refs/remotes/'.length),
+                type: 'remote',
+                target: objectName
+            });
+        } else if (refName.startsWith('refs/tags/')) {
+            const annotated = objectType === 'tag';
+            refs.push({
+                name: refName.slice('refs/tags/'.length),
+                type: 'tag',
+                target: annotated ? peeledName : objectName,
+                annotated,
+                ...(annotated && contents ? { message: contents.trim() } : {})
+            });
+        }
+    });
+
+    return refs;
+};
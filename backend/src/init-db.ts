@@ -1,29 +1,24 @@
-import { initDb } from './database.js';
+import { migrateDb } from './database.js';
 
-console.log('Initializing database schema...');
+console.log('Migrating database schema...');
 
 (async () => {
     try {
-        const db = await initDb();
-        console.log('Database initialized successfully!');
-        console.log('Schema created/verified.');
-        
-        // Verify the table exists (only for SQLite - PostgreSQL table creation is automatic)
-        if (db && typeof db.prepare === 'function') {
-            const tables = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='repos'").get();
-            if (tables) {
-                console.log('✓ repos table exists');
+        const report = await migrateDb();
+        if (!report) {
+            console.log('✓ In-memory storage has no schema to migrate');
+        } else {
+            if (report.applied.length > 0) {
+                report.applied.forEach(name => console.log(`✓ Applied ${name}`));
             } else {
-                console.log('✗ repos table not found');
+                console.log('✓ Schema already up to date');
             }
-        } else {
-            console.log('✓ Database initialized (PostgreSQL or other)');
+            console.log(`Database is at schema version ${report.version}.`);
         }
         
         process.exit(0);
     } catch (error) {
-        console.error('Failed to initialize database:', error);
+        console.error('Failed to migrate database:', error);
         process.exit(1);
     }
 })();
-
@@ -1,58 +1,222 @@
-type JobStatus = 'pending' | 'processing' | 'complete' | 'failed';
+import crypto from 'crypto';
+import {
+    insertJob, getJob, findActiveJob, claimNextJob, finishJob, retryJob, cancelPendingJob,
+    recoverInterruptedJobs, deleteFinishedJobs
+} from './database.js';
+import { TransientGitError } from './git.js';
+import { credentialId } from './repoAccess.js';
+import type { GitCredentials } from './providers.js';
+import type { JobKind, JobProgress, JobRecord, JobStatus } from './types.js';
 
-interface Job {
-    id: string;
+// Jobs run at most this many at a time per server process
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '', 10) || 2;
+// Runs per job, including retries after transient failures
+const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '', 10) || 3;
+// Delay before the first retry, doubled for every further attempt
+const JOB_RETRY_BASE_MS = 5000;
+const POLL_INTERVAL_MS = 1000;
+// Finished jobs are kept this long so clients can still read their result
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export type ProgressReporter = (progress: JobProgress) => void;
+
+export interface JobContext {
+    credentials?: GitCredentials;
+    reportProgress: ProgressReporter;
+    // Aborted when the job is cancelled; handlers pass it on to the git commands they run
+    signal: AbortSignal;
+}
+
+export type JobHandler = (repoUrl: string, context: JobContext) => Promise<any>;
+
+// What clients see of a job, both when polling and over the event stream
+export interface JobState {
     status: JobStatus;
-    repoUrl: string;
+    progress?: JobProgress; // while pending or processing
     result?: any;
     error?: string;
-    createdAt: number;
 }
 
-const jobs = new Map<string, Job>();
-let jobIdCounter = 0;
+const QUEUED: JobProgress = { stage: 'queued', percent: null };
+
+export const isJobFinished = (status: JobStatus) => status === 'complete' || status === 'failed' || status === 'cancelled';
+
+// Access tokens are only ever held in memory: jobs resumed after a restart run
+// without them, which is fine for public repositories and fails cleanly otherwise
+const jobCredentials = new Map<string, GitCredentials>();
+// Latest progress of the jobs running in this process; not worth a database write per percent
+const jobProgress = new Map<string, JobProgress>();
+const jobListeners = new Map<string, Set<(state: JobState) => void>>();
+// Jobs running in this process, to abort them and wait until they have stopped
+const runningJobs = new Map<string, { controller: AbortController, done: Promise<void> }>();
+// Requests in this process waiting for each job, counting the ones that joined it
+const jobRequests = new Map<string, number>();
+
+const forgetJob = (jobId: string) => {
+    jobCredentials.delete(jobId);
+    jobRequests.delete(jobId);
+};
+
+const notify = (jobId: string, state: JobState) => {
+    jobListeners.get(jobId)?.forEach(listener => listener(state));
+};
+
+// Calls `listener` with every change of the job's state until the returned
+// function is called
+export function subscribeToJob(jobId: string, listener: (state: JobState) => void): () => void {
+    const listeners = jobListeners.get(jobId) ?? new Set();
+    listeners.add(listener);
+    jobListeners.set(jobId, listeners);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) jobListeners.delete(jobId);
+    };
+}
+
+let handlers: Record<JobKind, JobHandler> | null = null;
+let running = 0;
+let pumping = false;
+// Serializes addJob so two requests for the same repository cannot both insert
+let addQueue: Promise<unknown> = Promise.resolve();
 
-export function addJob(repoUrl: string): string {
-    const jobId = `job_${Date.now()}_${jobIdCounter++}`;
-    jobs.set(jobId, {
-        id: jobId,
-        status: 'pending',
-        repoUrl,
-        createdAt: Date.now()
+// Queues a job for the repository, or returns the id of the job of the same
+// kind already pending or running for it. Refresh and analysis results differ
+// in shape, so the two kinds are not merged. Only requests with the same
+// credentials share a job, since its result may be a private repository's.
+// With `startsLater`, a running job is not joined: it may have fetched before
+// whatever triggered this one.
+export function addJob(kind: JobKind, repoUrl: string, credentials?: GitCredentials, { startsLater = false } = {}): Promise<string> {
+    const added = addQueue.then(async () => {
+        const requester = credentialId(credentials);
+        const active = await findActiveJob(kind, repoUrl, requester, !startsLater);
+        const jobId = active ? active.id : `job_${Date.now()}_${crypto.randomBytes(16).toString('hex')}`;
+        if (!active) {
+            await insertJob(jobId, kind, repoUrl, requester);
+        }
+        if (credentials && !jobCredentials.has(jobId)) {
+            jobCredentials.set(jobId, credentials);
+        }
+        jobRequests.set(jobId, (jobRequests.get(jobId) ?? 0) + 1);
+        return jobId;
     });
-    return jobId;
+    addQueue = added.catch(() => {});
+    added.then(() => pump()).catch(() => {});
+    return added;
 }
 
-export function getJobStatus(jobId: string): { status: JobStatus, result?: any, error?: string } | null {
-    const job = jobs.get(jobId);
+export async function getJobStatus(jobId: string): Promise<JobState | null> {
+    const job = await getJob(jobId);
     if (!job) {
         return null;
     }
     return {
         status: job.status,
+        // Jobs running in another server process have no progress here
+        progress: job.status === 'pending' ? QUEUED : job.status === 'processing' ? jobProgress.get(jobId) : undefined,
         result: job.result,
-        error: job.error
+        error: job.status === 'failed' ? job.error : undefined
     };
 }
 
-export function updateJobStatus(jobId: string, status: JobStatus, result?: any, error?: string) {
-    const job = jobs.get(jobId);
-    if (job) {
-        job.status = status;
-        if (result) job.result = result;
-        if (error) job.error = error;
-        jobs.set(jobId, job);
+async function runJob(job: JobRecord, signal: AbortSignal) {
+    const credentials = jobCredentials.get(job.id);
+    const reportProgress: ProgressReporter = progress => {
+        jobProgress.set(job.id, progress);
+        notify(job.id, { status: 'processing', progress });
+    };
+    notify(job.id, { status: 'processing' });
+    try {
+        const result = await handlers![job.kind](job.repoUrl, { credentials, reportProgress, signal });
+        await finishJob(job.id, { status: 'complete', result });
+        forgetJob(job.id);
+        notify(job.id, { status: 'complete', result });
+    } catch (error: any) {
+        const message = error.message || 'An internal server error occurred.';
+        if (signal.aborted) {
+            // Whatever the handler failed with, it was because its git commands were killed
+            await finishJob(job.id, { status: 'cancelled' });
+            forgetJob(job.id);
+            notify(job.id, { status: 'cancelled' });
+        } else if (error instanceof TransientGitError && job.attempts < JOB_MAX_ATTEMPTS) {
+            const delay = JOB_RETRY_BASE_MS * 2 ** (job.attempts - 1);
+            console.warn(`[JOBS] ${job.id} failed (attempt ${job.attempts}/${JOB_MAX_ATTEMPTS}), retrying in ${delay / 1000}s: ${message}`);
+            await retryJob(job.id, Date.now() + delay, message);
+            notify(job.id, { status: 'pending', progress: QUEUED });
+        } else {
+            await finishJob(job.id, { status: 'failed', error: message });
+            forgetJob(job.id);
+            notify(job.id, { status: 'failed', error: message });
+        }
+    } finally {
+        jobProgress.delete(job.id);
     }
 }
 
-// Cleanup old jobs (older than 1 hour)
-setInterval(() => {
-    const oneHour = 60 * 60 * 1000;
-    const now = Date.now();
-    for (const [id, job] of jobs.entries()) {
-        if (now - job.createdAt > oneHour) {
-            jobs.delete(id);
+// Cancels a pending job, or aborts a running one and waits until it has
+// stopped. Resolves with the job's state afterwards, which is not `cancelled`
+// when the job had already finished or runs in another server process.
+// While other requests still wait for the job, only the caller's request is
+// dropped: the job runs on and the caller is answered as if it was cancelled.
+export async function cancelJob(jobId: string): Promise<JobState | null> {
+    const requests = jobRequests.get(jobId) ?? 0;
+    if (requests > 1) {
+        jobRequests.set(jobId, requests - 1);
+        const state = await getJobStatus(jobId);
+        return state && !isJobFinished(state.status) ? { status: 'cancelled' } : state;
+    }
+
+    const active = runningJobs.get(jobId);
+    if (active) {
+        active.controller.abort();
+        await active.done;
+    } else if (await cancelPendingJob(jobId)) {
+        forgetJob(jobId);
+        notify(jobId, { status: 'cancelled' });
+    }
+    return getJobStatus(jobId);
+}
+
+// Claims runnable jobs until the concurrency limit is reached
+async function pump() {
+    if (!handlers || pumping) return;
+    pumping = true;
+    try {
+        while (running < JOB_CONCURRENCY) {
+            const job = await claimNextJob();
+            if (!job) break;
+            running++;
+            const controller = new AbortController();
+            const done = runJob(job, controller.signal)
+                .catch(error => console.error(`[JOBS] Failed to record the outcome of ${job.id}:`, error.message))
+                .finally(() => {
+                    runningJobs.delete(job.id);
+                    running--;
+                    pump();
+                });
+            runningJobs.set(job.id, { controller, done });
         }
+    } catch (error: any) {
+        console.error('[JOBS] Failed to claim a job:', error.message);
+    } finally {
+        pumping = false;
+    }
+}
+
+// Starts processing the queue. Jobs interrupted by the previous server process
+// are resumed while they have attempts left, and failed otherwise.
+export async function initJobQueue(jobHandlers: Record<JobKind, JobHandler>) {
+    const resumed = await recoverInterruptedJobs(JOB_MAX_ATTEMPTS);
+    if (resumed > 0) {
+        console.log(`[JOBS] Resuming ${resumed} interrupted job(s)`);
     }
-}, 5 * 60 * 1000); // Clean every 5 minutes
+    handlers = jobHandlers;
 
+    // Picks up retries once their backoff has passed
+    setInterval(pump, POLL_INTERVAL_MS);
+    // Cleanup old finished jobs
+    setInterval(() => {
+        deleteFinishedJobs(Date.now() - JOB_RETENTION_MS)
+            .catch(error => console.error('[JOBS] Failed to clean up old jobs:', error.message));
+    }, 5 * 60 * 1000); // Clean every 5 minutes
+    pump();
+}
@@ -0,0 +1,196 @@
+import type { RepoData, CommitNode, RawCommit } from './types.js';
+
+// Vertical distance between two consecutive rows of history
+const ROW_HEIGHT = 2;
+// Horizontal distance between two lanes
+const LANE_WIDTH = 2;
+
+// Binary min-heap of free lane indices, so a freed lane is always reused
+// before the graph is allowed to grow wider
+class LanePool {
+    private heap: number[] = [];
+    private width = 0;
+
+    acquire(): number {
+        if (this.heap.length === 0) {
+            return this.width++;
+        }
+        const lane = this.heap[0];
+        const last = this.heap.pop()!;
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < this.heap.length && this.heap[left] < this.heap[smallest]) smallest = left;
+                if (right < this.heap.length && this.heap[right] < this.heap[smallest]) smallest = right;
+                if (smallest === i) break;
+                [this.heap[i], this.heap[smallest]] = [this.heap[smallest], this.heap[i]];
+                i = smallest;
+            }
+        }
+        return lane;
+    }
+
+    release(lane: number) {
+        this.heap.push(lane);
+        let i = this.heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.heap[parent] <= this.heap[i]) break;
+            [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+            i = parent;
+        }
+    }
+}
+
+export const lanePosition = (lane: number, y: number): [number, number, number] => {
+    return [lane * LANE_WIDTH, y, (lane % 2) * 2 - 1];
+};
+
+export const toCommitNode = (commit: RawCommit, pos: [number, number, number]): CommitNode => ({
+    pos,
+    parent: commit.parentHashes.length > 0 ? commit.parentHashes[0] : null,
+    parents: commit.parentHashes,
+    message: commit.message,
+    body: commit.body,
+    author: commit.author,
+    authorEmail: commit.authorEmail,
+    authorTime: commit.authorTime,
+    committer: commit.committer,
+    committerEmail: commit.committerEmail,
+    commitTime: commit.commitTime
+});
+
+// Orders commits newest-first with every commit listed before its parents,
+// keeping first-parent chains contiguous (like `git log --topo-order`)
+const topologicalOrder = (commits: Map<string, RawCommit>): string[] => {
+    const pendingChildren = new Map<string, number>();
+    commits.forEach(commit => {
+        commit.parentHashes.forEach(parentHash => {
+            if (commits.has(parentHash)) {
+                pendingChildren.set(parentHash, (pendingChildren.get(parentHash) || 0) + 1);
+            }
+        });
+    });
+
+    // Tips are pushed oldest-first so the newest one is popped first
+    const stack = Array.from(commits.keys())
+        .filter(hash => !pendingChildren.has(hash))
+        .sort((a, b) => commits.get(a)!.commitTime - commits.get(b)!.commitTime);
+
+    const order: string[] = [];
+    while (stack.length > 0) {
+        const hash = stack.pop()!;
+        order.push(hash);
+
+        const parentHashes = commits.get(hash)!.parentHashes;
+        // Push in reverse so the first parent is visited next
+        for (let i = parentHashes.length - 1; i >= 0; i--) {
+            const parentHash = parentHashes[i];
+            if (!commits.has(parentHash)) continue;
+            const remaining = pendingChildren.get(parentHash)! - 1;
+            pendingChildren.set(parentHash, remaining);
+            if (remaining === 0) {
+                stack.push(parentHash);
+            }
+        }
+    }
+
+    return order;
+};
+
+// Lays out the commit graph the way `git log --graph` draws it: one row per
+// commit, a lane per line of development, and lanes handed back to the pool
+// as soon as the branch occupying them has been merged or has ended.
+// Runs iteratively in O(n log w) for n commits and w lanes, so it is safe for
+// histories with hundreds of thousands of commits.
+export const calculateLayout = (commits: Map<string, RawCommit>): RepoData => {
+    const repoData: RepoData = {};
+    const order = topologicalOrder(commits);
+    const lanes = new LanePool();
+    // Lane that is waiting for a given commit to show up further down the history
+    const expected = new Map<string, number>();
+
+    order.forEach((hash, row) => {
+        const commit = commits.get(hash)!;
+
+        let lane = expected.get(hash);
+        if (lane === undefined) {
+            lane = lanes.acquire();
+        } else {
+            expected.delete(hash);
+        }
+
+        // Oldest commit at the bottom (y = 0), newest at the top
+        const y = (order.length - 1 - row) * ROW_HEIGHT;
+        repoData[hash] = toCommitNode(commit, lanePosition(lane, y));
+
+        const [firstParent, ...mergeParents] = commit.parentHashes.filter(parentHash => commits.has(parentHash));
+        if (firstParent && !expected.has(firstParent)) {
+            // Continue this line of development in the same lane
+            expected.set(firstParent, lane);
+        } else {
+            // Branch ended, or it joins a lane that already leads to its parent
+            lanes.release(lane);
+        }
+
+        mergeParents.forEach(parentHash => {
+            if (!expected.has(parentHash)) {
+                expected.set(parentHash, lanes.acquire());
+            }
+        });
+    });
+
+    return repoData;
+};
+
+// Places commits fetched since the last analysis on top of an existing layout
+// without moving any existing star. New commits get rows above the current
+// top of the galaxy; a commit continues its first parent's lane when that
+// parent is still a branch tip, otherwise it takes the lowest lane that is
+// empty above the fork point. Returns only the newly placed commits.
+export const extendLayout = (existing: RepoData, newCommits: Map<string, RawCommit>): RepoData => {
+    const delta: RepoData = {};
+    const lookup = (hash: string) => delta[hash] || existing[hash];
+
+    let topY = 0;
+    const laneTops: number[] = [];
+    const continued = new Set<string>(); // commits that already have a first-parent child
+    Object.values(existing).forEach(node => {
+        const lane = Math.round(node.pos[0] / LANE_WIDTH);
+        topY = Math.max(topY, node.pos[1]);
+        laneTops[lane] = Math.max(laneTops[lane] ?? -Infinity, node.pos[1]);
+        if (node.parent) continued.add(node.parent);
+    });
+
+    const freeLaneAbove = (y: number): number => {
+        for (let lane = 0; lane < laneTops.length; lane++) {
+            if ((laneTops[lane] ?? -Infinity) <= y) return lane;
+        }
+        return laneTops.length;
+    };
+
+    // Parents before children, so every first parent is placed before its child
+    const order = topologicalOrder(newCommits).reverse();
+    order.forEach((hash, index) => {
+        const commit = newCommits.get(hash)!;
+        const y = topY + (index + 1) * ROW_HEIGHT;
+        const firstParent = commit.parentHashes.length > 0 ? lookup(commit.parentHashes[0]) : undefined;
+
+        let lane: number;
+        if (firstParent && !continued.has(commit.parentHashes[0])) {
+            lane = Math.round(firstParent.pos[0] / LANE_WIDTH);
+        } else {
+            lane = freeLaneAbove(firstParent ? firstParent.pos[1] : -Infinity);
+        }
+
+        if (commit.parentHashes.length > 0) continued.add(commit.parentHashes[0]);
+        laneTops[lane] = y;
+        delta[hash] = toCommitNode(commit, lanePosition(lane, y));
+    });
+
+    return delta;
+};
@@ -0,0 +1,23 @@
+import type { AnalysisDelta } from './types.js';
+
+type RepoListener = (delta: AnalysisDelta) => void;
+
+// Browsers following a repository, keyed by normalized repository URL. Only
+// refreshes run by this server process reach them.
+const subscribers = new Map<string, Set<RepoListener>>();
+
+// Calls `listener` with the delta of every refresh of the repository until the
+// returned function is called
+export function subscribeToRepo(repoUrl: string, listener: RepoListener): () => void {
+    const listeners = subscribers.get(repoUrl) ?? new Set();
+    listeners.add(listener);
+    subscribers.set(repoUrl, listeners);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) subscribers.delete(repoUrl);
+    };
+}
+
+export function publishRepoUpdate(repoUrl: string, delta: AnalysisDelta) {
+    subscribers.get(repoUrl)?.forEach(listener => listener(delta));
+}
@@ -0,0 +1,153 @@
+import type { RepoStore } from './repoStore.js';
+import type { AnalysisResult, JobRecord, MirrorRecord, RepoAccess } from './types.js';
+
+// Keeps everything in process memory, for running the backend without any
+// database (demos, tests). Nothing survives a restart. Records are copied in
+// and out so callers cannot change stored state by mutating what they got.
+export function createMemoryStore(): RepoStore {
+    const repos = new Map<string, { data: AnalysisResult, analyzedAt: number, access: RepoAccess }>();
+    // Expiry of each credential's grant, by repository URL
+    const grants = new Map<string, Map<string, number>>();
+    const mirrors = new Map<string, MirrorRecord>();
+    const jobs = new Map<string, JobRecord>();
+
+    const copyJob = (job: JobRecord | undefined) => job ? structuredClone(job) : null;
+    const oldestFirst = (a: JobRecord, b: JobRecord) => a.createdAt - b.createdAt;
+    const updateJob = (job: JobRecord, changes: Partial<JobRecord>) => {
+        jobs.set(job.id, { ...job, ...changes, updatedAt: Date.now() });
+    };
+
+    return {
+        driver: 'memory',
+
+        async init() {
+            return null;
+        },
+
+        async getRepo(url, analyzedSince = 0) {
+            const repo = repos.get(url);
+            return repo && repo.analyzedAt >= analyzedSince ? structuredClone(repo.data) : null;
+        },
+
+        async storeRepo(url, data, access) {
+            repos.set(url, { data: structuredClone(data), analyzedAt: Date.now(), access: { ...access } });
+        },
+
+        async updateRepo(url, delta, access) {
+            const repo = repos.get(url);
+            if (!repo) return;
+
+            // Commits already stored are kept, as the SQL stores do
+            const repoData = { ...repo.data.repoData };
+            for (const [hash, node] of Object.entries(delta.added)) {
+                repoData[hash] ??= node;
+            }
+            repos.set(url, {
+                data: structuredClone({
+                    repoData,
+                    authors: delta.authors,
+                    refs: delta.refs,
+                    churn: delta.churn ?? repo.data.churn
+                }),
+                analyzedAt: Date.now(),
+                access: { ...access }
+            });
+        },
+
+        async getRepoAccess(url) {
+            const repo = repos.get(url);
+            return repo ? { ...repo.access } : null;
+        },
+
+        async grantRepoAccess(url, credentialId, expiresAt) {
+            if (!repos.has(url)) return;
+            const repoGrants = grants.get(url) ?? new Map<string, number>();
+            repoGrants.set(credentialId, expiresAt);
+            grants.set(url, repoGrants);
+        },
+
+        async hasRepoGrant(url, credentialId, now) {
+            return (grants.get(url)?.get(credentialId) ?? 0) > now;
+        },
+
+        async getMirror(url) {
+            const mirror = mirrors.get(url);
+            return mirror ? { ...mirror } : null;
+        },
+
+        async listMirrors() {
+            return Array.from(mirrors.values(), mirror => ({ ...mirror })).sort((a, b) => a.lastUsed - b.lastUsed);
+        },
+
+        async storeMirror(mirror) {
+            mirrors.set(mirror.url, { ...mirror });
+        },
+
+        async deleteMirror(url) {
+            mirrors.delete(url);
+        },
+
+        async insertJob(id, kind, repoUrl, credentialId) {
+            const now = Date.now();
+            jobs.set(id, {
+                id, kind, repoUrl, credentialId, status: 'pending', attempts: 0, runAfter: now, createdAt: now, updatedAt: now
+            });
+        },
+
+        async getJob(id) {
+            return copyJob(jobs.get(id));
+        },
+
+        async findActiveJob(kind, repoUrl, credentialId, includeRunning) {
+            const active = Array.from(jobs.values())
+                .filter(job => job.kind === kind && job.repoUrl === repoUrl && job.credentialId === credentialId
+                    && (job.status === 'pending' || (includeRunning && job.status === 'processing')))
+                .sort(oldestFirst);
+            return copyJob(active[0]);
+        },
+
+        async claimNextJob() {
+            const now = Date.now();
+            const [next] = Array.from(jobs.values())
+                .filter(job => job.status === 'pending' && job.runAfter <= now)
+                .sort(oldestFirst);
+            if (!next) return null;
+            updateJob(next, { status: 'processing', attempts: next.attempts + 1 });
+            return copyJob(jobs.get(next.id));
+        },
+
+        async finishJob(id, outcome) {
+            const job = jobs.get(id);
+            if (!job) return;
+            updateJob(job, {
+                status: outcome.status,
+                result: outcome.status === 'complete' ? structuredClone(outcome.result) : undefined,
+                error: outcome.status === 'failed' ? outcome.error : undefined
+            });
+        },
+
+        async retryJob(id, runAfter, error) {
+            const job = jobs.get(id);
+            if (job) updateJob(job, { status: 'pending', runAfter, error });
+        },
+
+        async cancelPendingJob(id) {
+            const job = jobs.get(id);
+            if (job?.status !== 'pending') return false;
+            updateJob(job, { status: 'cancelled' });
+            return true;
+        },
+
+        async recoverInterruptedJobs() {
+            // Nothing outlives the process that was running it
+            return 0;
+        },
+
+        async deleteFinishedJobs(cutoff) {
+            for (const job of jobs.values()) {
+                const finished = job.status === 'complete' || job.status === 'failed' || job.status === 'cancelled';
+                if (finished && job.updatedAt < cutoff) jobs.delete(job.id);
+            }
+        }
+    };
+}
@@ -0,0 +1,267 @@
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface TransactionOptions {
+    // Only reads, all from one consistent snapshot of the database
+    readOnly?: boolean;
+}
+
+// Driver-neutral access to the database: statements use `?` placeholders and
+// resolve with their rows (empty for statements that return none). `fn` gets a
+// connection of its own for the statements of the transaction; statements run
+// on `query` meanwhile never see its uncommitted rows, nor end up inside it.
+export interface SqlConnection {
+    dialect: SqlDialect;
+    query(sql: string, params?: unknown[]): Promise<any[]>;
+    transaction<T>(fn: (tx: SqlConnection) => Promise<T>, options?: TransactionOptions): Promise<T>;
+}
+
+interface Migration {
+    version: number;
+    name: string;
+    up: (db: SqlConnection) => Promise<void>;
+}
+
+// Column types that differ between the drivers
+const typesFor = (dialect: SqlDialect) => dialect === 'postgres'
+    ? { bigint: 'BIGINT', real: 'DOUBLE PRECISION' }
+    : { bigint: 'INTEGER', real: 'REAL' };
+
+// Rows per INSERT statement; keeps every statement well below the bound
+// parameter limits of both drivers
+const ROWS_PER_INSERT = 500;
+
+async function insertRows(db: SqlConnection, table: string, columns: string[], rows: unknown[][]) {
+    const row = `(${columns.map(() => '?').join(', ')})`;
+    for (let start = 0; start < rows.length; start += ROWS_PER_INSERT) {
+        const chunk = rows.slice(start, start + ROWS_PER_INSERT);
+        await db.query(`INSERT INTO ${table} (${columns.join(', ')}) VALUES ${chunk.map(() => row).join(', ')}`, chunk.flat());
+    }
+}
+
+// Applied in order, each in its own transaction. Never edit a migration that
+// has shipped: add a new one instead.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'initial_schema',
+        // The tables as they were created before migrations existed, so
+        // existing databases pick up from here unchanged
+        up: async db => {
+            const { bigint } = typesFor(db.dialect);
+            await db.query(`
+                CREATE TABLE IF NOT EXISTS repos (
+                    url TEXT PRIMARY KEY,
+                    data TEXT NOT NULL,
+                    timestamp ${bigint} NOT NULL,
+                    created_at ${bigint} NOT NULL
+                )
+            `);
+            await db.query(`
+                CREATE TABLE IF NOT EXISTS mirrors (
+                    url TEXT PRIMARY KEY,
+                    path TEXT NOT NULL,
+                    size_bytes ${bigint} NOT NULL,
+                    last_used ${bigint} NOT NULL,
+                    last_fetched ${bigint} NOT NULL
+                )
+            `);
+            await db.query(`
+                CREATE TABLE IF NOT EXISTS jobs (
+                    id TEXT PRIMARY KEY,
+                    kind TEXT NOT NULL,
+                    repo_url TEXT NOT NULL,
+                    status TEXT NOT NULL,
+                    attempts INTEGER NOT NULL,
+                    run_after ${bigint} NOT NULL,
+                    result TEXT,
+                    error TEXT,
+                    created_at ${bigint} NOT NULL,
+                    updated_at ${bigint} NOT NULL
+                )
+            `);
+            await db.query('CREATE INDEX IF NOT EXISTS jobs_status_idx ON jobs (status, run_after)');
+        }
+    },
+    {
+        version: 2,
+        name: 'normalized_repos',
+        // Replaces the one-JSON-blob-per-repository table with a row per commit,
+        // parent, ref, author and file. `seq` keeps the order the analysis produced.
+        up: async db => {
+            const { bigint, real } = typesFor(db.dialect);
+            await db.query('ALTER TABLE repos RENAME TO repos_blob');
+
+            await db.query(`
+                CREATE TABLE repos (
+                    url TEXT PRIMARY KEY,
+                    analyzed_at ${bigint} NOT NULL,
+                    created_at ${bigint} NOT NULL,
+                    churn_collected INTEGER NOT NULL
+                )
+            `);
+            await db.query(`
+                CREATE TABLE commits (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    hash TEXT NOT NULL,
+                    seq INTEGER NOT NULL,
+                    pos_x ${real} NOT NULL,
+                    pos_y ${real} NOT NULL,
+                    pos_z ${real} NOT NULL,
+                    message TEXT NOT NULL,
+                    body TEXT NOT NULL,
+                    author TEXT NOT NULL,
+                    author_email TEXT NOT NULL,
+                    author_time ${bigint} NOT NULL,
+                    committer TEXT NOT NULL,
+                    committer_email TEXT NOT NULL,
+                    commit_time ${bigint} NOT NULL,
+                    branch_color TEXT,
+                    PRIMARY KEY (repo_url, hash)
+                )
+            `);
+            await db.query('CREATE INDEX commits_author_idx ON commits (repo_url, author)');
+            await db.query('CREATE INDEX commits_time_idx ON commits (repo_url, commit_time)');
+            await db.query(`
+                CREATE TABLE commit_parents (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    hash TEXT NOT NULL,
+                    position INTEGER NOT NULL,
+                    parent TEXT NOT NULL,
+                    PRIMARY KEY (repo_url, hash, position)
+                )
+            `);
+            await db.query('CREATE INDEX commit_parents_parent_idx ON commit_parents (repo_url, parent)');
+            await db.query(`
+                CREATE TABLE refs (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    seq INTEGER NOT NULL,
+                    name TEXT NOT NULL,
+                    type TEXT NOT NULL,
+                    target TEXT NOT NULL,
+                    annotated INTEGER NOT NULL,
+                    message TEXT,
+                    is_head INTEGER NOT NULL,
+                    PRIMARY KEY (repo_url, type, name)
+                )
+            `);
+            await db.query(`
+                CREATE TABLE authors (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    seq INTEGER NOT NULL,
+                    name TEXT NOT NULL,
+                    commit_count INTEGER NOT NULL,
+                    PRIMARY KEY (repo_url, name)
+                )
+            `);
+            await db.query(`
+                CREATE TABLE file_churn (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    path TEXT NOT NULL,
+                    commits INTEGER NOT NULL,
+                    insertions INTEGER NOT NULL,
+                    deletions INTEGER NOT NULL,
+                    authors TEXT NOT NULL,
+                    PRIMARY KEY (repo_url, path)
+                )
+            `);
+
+            // Analyses cached before refs were recorded lack most commit metadata
+            // too; they are dropped and simply re-analyzed on the next request.
+            // The rows are written out here rather than with analysisRows.ts,
+            // which follows the latest schema instead of this one.
+            const blobs = await db.query('SELECT url, data, timestamp, created_at FROM repos_blob');
+            for (const blob of blobs) {
+                const data = JSON.parse(blob.data);
+                if (!data?.repoData || !Array.isArray(data.refs)) continue;
+                const url = blob.url;
+                await db.query(
+                    'INSERT INTO repos (url, analyzed_at, created_at, churn_collected) VALUES (?, ?, ?, ?)',
+                    [url, Number(blob.timestamp), Number(blob.created_at), data.churn ? 1 : 0]
+                );
+                const commits = Object.entries<any>(data.repoData);
+                await insertRows(db, 'commits', [
+                    'repo_url', 'hash', 'seq', 'pos_x', 'pos_y', 'pos_z', 'message', 'body', 'author', 'author_email',
+                    'author_time', 'committer', 'committer_email', 'commit_time', 'branch_color'
+                ], commits.map(([hash, node], index) => [
+                    url, hash, index, node.pos[0], node.pos[1], node.pos[2], node.message, node.body ?? '',
+                    node.author, node.authorEmail ?? '', node.authorTime ?? 0, node.committer ?? node.author,
+                    node.committerEmail ?? '', node.commitTime ?? 0, node.branchColor ?? null
+                ]));
+                await insertRows(db, 'commit_parents', ['repo_url', 'hash', 'position', 'parent'], commits.flatMap(([hash, node]) =>
+                    (node.parents ?? (node.parent ? [node.parent] : [])).map((parent: string, position: number) => [url, hash, position, parent])
+                ));
+                await insertRows(db, 'refs', ['repo_url', 'seq', 'name', 'type', 'target', 'annotated', 'message', 'is_head'],
+                    data.refs.map((ref: any, index: number) => [
+                        url, index, ref.name, ref.type, ref.target, ref.annotated ? 1 : 0, ref.message ?? null, ref.isHead ? 1 : 0
+                    ]));
+                await insertRows(db, 'authors', ['repo_url', 'seq', 'name', 'commit_count'],
+                    (data.authors ?? []).map((author: any, index: number) => [url, index, author.name, author.commitCount]));
+                await insertRows(db, 'file_churn', ['repo_url', 'path', 'commits', 'insertions', 'deletions', 'authors'],
+                    (data.churn ?? []).map((file: any) => [
+                        url, file.path, file.commits, file.insertions, file.deletions, JSON.stringify(file.authors)
+                    ]));
+            }
+            await db.query('DROP TABLE repos_blob');
+        }
+    },
+    {
+        version: 3,
+        name: 'repo_access',
+        // Entries cached before visibility was recorded may be private ones;
+        // they are re-verified like any private entry
+        up: async db => {
+            const { bigint } = typesFor(db.dialect);
+            await db.query(`ALTER TABLE repos ADD COLUMN visibility TEXT NOT NULL DEFAULT 'private'`);
+            await db.query('ALTER TABLE repos ADD COLUMN owner TEXT');
+            await db.query(`
+                CREATE TABLE repo_grants (
+                    repo_url TEXT NOT NULL REFERENCES repos (url) ON DELETE CASCADE,
+                    credential_id TEXT NOT NULL,
+                    expires_at ${bigint} NOT NULL,
+                    PRIMARY KEY (repo_url, credential_id)
+                )
+            `);
+            await db.query('ALTER TABLE jobs ADD COLUMN credential_id TEXT');
+        }
+    }
+];
+
+// Arbitrary key of the Postgres advisory lock that keeps two server instances
+// from applying the same migration at the same time
+const MIGRATION_LOCK_KEY = 7020411;
+
+// Brings the schema up to date. Resolves with the migrations that were applied
+// now and the resulting schema version.
+export async function runMigrations(db: SqlConnection): Promise<{ applied: string[], version: number }> {
+    const { bigint } = typesFor(db.dialect);
+    await db.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at ${bigint} NOT NULL
+        )
+    `);
+
+    const applied: string[] = [];
+    for (const migration of MIGRATIONS) {
+        const isNew = await db.transaction(async tx => {
+            // Held until the transaction ends; whoever waited for it finds the migration applied
+            if (tx.dialect === 'postgres') {
+                await tx.query('SELECT pg_advisory_xact_lock(?)', [MIGRATION_LOCK_KEY]);
+            }
+            const [done] = await tx.query('SELECT version FROM schema_migrations WHERE version = ?', [migration.version]);
+            if (done) return false;
+
+            await migration.up(tx);
+            await tx.query('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
+                migration.version, migration.name, Date.now()
+            ]);
+            return true;
+        });
+        if (isNew) {
+            applied.push(`${migration.version}_${migration.name}`);
+        }
+    }
+
+    return { applied, version: MIGRATIONS[MIGRATIONS.length - 1].version };
+}
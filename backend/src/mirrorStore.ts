@@ -0,0 +1,336 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { runGit, isTransientGitError, parseTransferProgress, TransientGitError } from './git.js';
+import { getMirror, listMirrors, storeMirror, deleteMirror } from './database.js';
+import type { GitCredentials } from './providers.js';
+import type { JobProgress } from './types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Bare clones are kept here between requests and updated with `git fetch`
+const MIRROR_ROOT = process.env.MIRROR_CACHE_DIR || path.join(__dirname, '../data/mirrors');
+// Least recently used mirrors are evicted once the cache grows past this size
+const MIRROR_CACHE_MAX_BYTES = parseInt(process.env.MIRROR_CACHE_MAX_BYTES || '', 10) || 5 * 1024 * 1024 * 1024;
+// Reading a mirror refreshes its last-used time at most this often; eviction
+// only needs a rough order, so there is no point writing it on every request
+const MIRROR_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+// Mirror directories and the temporary directories of clones in progress;
+// nothing else in MIRROR_ROOT is ours to delete
+const MIRROR_ENTRY_PATTERN = /^[0-9a-f]{24}\.git(\.tmp-.+)?$/;
+
+// Only branches and tags are mirrored; hosting-specific refs such as GitHub's
+// refs/pull/* would multiply the size of popular repositories
+const FETCH_REFSPECS = ['+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*'];
+
+// Talking to a remote must never wait for input: fail instead of prompting for
+// a password, and accept SSH host keys on first contact
+const REMOTE_ENV: NodeJS.ProcessEnv = {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND || 'ssh -o BatchMode=yes -o StrictHostKeyChecking=accept-new'
+};
+
+interface MirrorOptions {
+    credentials?: GitCredentials;
+    // Fetch from the remote even if the mirror already exists
+    fetch?: boolean;
+    // Fetch only if this commit is not in the mirror yet
+    requireCommit?: string;
+    // Told when a clone or fetch starts and how far its transfer has got
+    onProgress?: (progress: JobProgress) => void;
+    // Aborting kills a running clone or fetch; `fn` is not called once aborted
+    signal?: AbortSignal;
+}
+
+// Readers/writer lock per mirror: any number of jobs can read a mirror at the
+// same time, while cloning, fetching and eviction get it exclusively
+class MirrorLock {
+    private readers = 0;
+    private writer = false;
+    private waiting: { exclusive: boolean, grant: () => void }[] = [];
+
+    get idle() {
+        return this.readers === 0 && !this.writer && this.waiting.length === 0;
+    }
+
+    acquire(exclusive: boolean): Promise<() => void> {
+        return new Promise(resolve => {
+            this.waiting.push({ exclusive, grant: () => resolve(() => this.release(exclusive)) });
+            this.drain();
+        });
+    }
+
+    tryAcquireExclusive(): (() => void) | null {
+        if (!this.idle) return null;
+        this.writer = true;
+        return () => this.release(true);
+    }
+
+    private release(exclusive: boolean) {
+        if (exclusive) {
+            this.writer = false;
+        } else {
+            this.readers--;
+        }
+        this.drain();
+    }
+
+    // Grants waiters in arrival order so writers are not starved by a stream of readers
+    private drain() {
+        while (this.waiting.length > 0 && !this.writer) {
+            const next = this.waiting[0];
+            if (next.exclusive) {
+                if (this.readers > 0) return;
+                this.writer = true;
+            } else {
+                this.readers++;
+            }
+            this.waiting.shift();
+            next.grant();
+        }
+    }
+}
+
+const locks = new Map<string, MirrorLock>();
+
+const lockFor = (url: string): MirrorLock => {
+    let lock = locks.get(url);
+    if (!lock) {
+        lock = new MirrorLock();
+        locks.set(url, lock);
+    }
+    return lock;
+};
+
+// The same repository is often referenced with and without `.git` or a trailing slash
+export const normalizeMirrorUrl = (repoUrl: string): string => {
+    return repoUrl.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+};
+
+const mirrorPath = (url: string): string => {
+    const key = crypto.createHash('sha256').update(url).digest('hex').slice(0, 24);
+    return path.join(MIRROR_ROOT, `${key}.git`);
+};
+
+// Credentials are passed per command instead of being embedded in the remote
+// URL, so a token never ends up in the shared mirror's config. They go through
+// git's GIT_CONFIG_* environment rather than `-c`, since the command line of a
+// process is readable by every local user. Entries already in the environment are kept.
+const remoteEnv = (credentials?: GitCredentials): NodeJS.ProcessEnv => {
+    if (!credentials) return REMOTE_ENV;
+    const basic = Buffer.from(`${credentials.username}:${credentials.token}`).toString('base64');
+    const index = parseInt(REMOTE_ENV.GIT_CONFIG_COUNT || '', 10) || 0;
+    return {
+        ...REMOTE_ENV,
+        GIT_CONFIG_COUNT: String(index + 1),
+        [`GIT_CONFIG_KEY_${index}`]: 'http.extraHeader',
+        [`GIT_CONFIG_VALUE_${index}`]: `Authorization: Basic ${basic}`
+    };
+};
+
+const pathExists = async (target: string): Promise<boolean> => {
+    try {
+        await fs.access(target);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const directorySize = async (dir: string): Promise<number> => {
+    let total = 0;
+    const pending = [dir];
+    while (pending.length > 0) {
+        const current = pending.pop()!;
+        const entries = await fs.readdir(current, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            const entryPath = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                pending.push(entryPath);
+            } else {
+                const stat = await fs.stat(entryPath).catch(() => null);
+                total += stat?.size || 0;
+            }
+        }
+    }
+    return total;
+};
+
+// Network hiccups are reported as retryable; anything else (bad URL, no access) is final
+const remoteError = (error: unknown, message: string): Error => {
+    if (error instanceof Error && isTransientGitError(error.message)) {
+        return new TransientGitError(`${message} The remote could not be reached.`);
+    }
+    return new Error(`${message} It may be private or the URL is incorrect.`);
+};
+
+const hasCommit = async (gitDir: string, hash: string): Promise<boolean> => {
+    try {
+        await runGit(['cat-file', '-e', `${hash}^{commit}`], { cwd: gitDir });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// git only writes progress when asked to, since stderr is not a terminal
+const progressArgs = (onProgress?: MirrorOptions['onProgress']) => onProgress ? ['--progress'] : ['--quiet'];
+
+// Reports the start of a transfer right away and then every change of its percentage
+const transferReporter = (stage: 'cloning' | 'fetching', onProgress?: MirrorOptions['onProgress']) => {
+    if (!onProgress) return undefined;
+    let last: number | null = null;
+    onProgress({ stage, percent: null });
+    return (chunk: string) => {
+        const percent = parseTransferProgress(chunk);
+        if (percent !== null && percent !== last) {
+            last = percent;
+            onProgress({ stage, percent });
+        }
+    };
+};
+
+// Clones into a temporary directory first and renames it into place, so an
+// interrupted clone never leaves a half-populated mirror behind
+async function cloneMirror(url: string, gitDir: string, { credentials, onProgress, signal }: MirrorOptions) {
+    await fs.mkdir(MIRROR_ROOT, { recursive: true });
+    const tempDir = await fs.mkdtemp(`${gitDir}.tmp-`);
+    try {
+        await runGit(['clone', '--bare', ...progressArgs(onProgress), '--', url, tempDir], {
+            cwd: MIRROR_ROOT,
+            env: remoteEnv(credentials),
+            onStderr: transferReporter('cloning', onProgress),
+            signal
+        });
+        await fs.rm(gitDir, { recursive: true, force: true });
+        await fs.rename(tempDir, gitDir);
+    } catch (error) {
+        await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+        throw remoteError(error, 'Failed to clone repository.');
+    }
+}
+
+async function fetchMirror(url: string, gitDir: string, { credentials, onProgress, signal }: MirrorOptions) {
+    try {
+        await runGit(['fetch', '--prune', ...progressArgs(onProgress), '--', url, ...FETCH_REFSPECS], {
+            cwd: gitDir,
+            env: remoteEnv(credentials),
+            onStderr: transferReporter('fetching', onProgress),
+            signal
+        });
+    } catch (error) {
+        throw remoteError(error, 'Failed to fetch repository updates.');
+    }
+}
+
+// Removes least recently used mirrors until the cache fits its size budget.
+// Mirrors that are being read or updated are skipped.
+async function evictMirrors() {
+    const mirrors = await listMirrors();
+    let total = mirrors.reduce((sum, mirror) => sum + mirror.sizeBytes, 0);
+
+    for (const mirror of mirrors) {
+        if (total <= MIRROR_CACHE_MAX_BYTES) break;
+
+        const release = lockFor(mirror.url).tryAcquireExclusive();
+        if (!release) continue;
+        try {
+            await fs.rm(mirror.path, { recursive: true, force: true });
+            await deleteMirror(mirror.url);
+            total -= mirror.sizeBytes;
+            console.log(`[MIRRORS] Evicted ${mirror.url} (${mirror.sizeBytes} bytes)`);
+        } finally {
+            release();
+        }
+    }
+}
+
+const needsUpdate = async (gitDir: string, options: MirrorOptions): Promise<boolean> => {
+    if (!(await pathExists(path.join(gitDir, 'HEAD')))) return true;
+    if (options.fetch) return true;
+    return !!options.requireCommit && !(await hasCommit(gitDir, options.requireCommit));
+};
+
+// Clones or fetches the mirror and records its new size. Runs under the
+// exclusive lock; another job may have cloned it or fetched the commit while
+// this one waited. Requested fetches always run, as the caller asked for the
+// remote's current state.
+async function updateMirror(url: string, repoUrl: string, gitDir: string, options: MirrorOptions): Promise<boolean> {
+    if (!(await pathExists(path.join(gitDir, 'HEAD')))) {
+        await cloneMirror(repoUrl, gitDir, options);
+    } else if (await needsUpdate(gitDir, options)) {
+        await fetchMirror(repoUrl, gitDir, options);
+    } else {
+        return false;
+    }
+
+    const now = Date.now();
+    await storeMirror({ url, path: gitDir, sizeBytes: await directorySize(gitDir), lastUsed: now, lastFetched: now });
+    return true;
+}
+
+// Makes sure an up-to-date mirror of the repository exists, then runs `fn`
+// with the path of the bare repository while holding a shared lock on it.
+// The exclusive lock is only taken when the mirror has to be cloned or fetched.
+export async function withMirror<T>(repoUrl: string, options: MirrorOptions, fn: (gitDir: string) => Promise<T>): Promise<T> {
+    const url = normalizeMirrorUrl(repoUrl);
+    const lock = lockFor(url);
+    const gitDir = mirrorPath(url);
+
+    let releaseShared = await lock.acquire(false);
+    try {
+        // The wait for the lock can be long when another job is cloning the same repository
+        options.signal?.throwIfAborted();
+
+        if (await needsUpdate(gitDir, options)) {
+            releaseShared();
+            releaseShared = () => {};
+
+            let updated = false;
+            const releaseExclusive = await lock.acquire(true);
+            try {
+                options.signal?.throwIfAborted();
+                updated = await updateMirror(url, repoUrl, gitDir, options);
+            } finally {
+                releaseExclusive();
+            }
+            if (updated) {
+                evictMirrors().catch(error => console.error('[MIRRORS] Eviction failed:', error.message));
+            }
+
+            releaseShared = await lock.acquire(false);
+            options.signal?.throwIfAborted();
+        } else {
+            const record = await getMirror(url);
+            if (!record || Date.now() - record.lastUsed >= MIRROR_TOUCH_INTERVAL_MS) {
+                const now = Date.now();
+                await storeMirror({
+                    url,
+                    path: gitDir,
+                    sizeBytes: record ? record.sizeBytes : await directorySize(gitDir),
+                    lastUsed: now,
+                    lastFetched: record ? record.lastFetched : now
+                });
+            }
+        }
+
+        return await fn(gitDir);
+    } finally {
+        releaseShared();
+    }
+}
+
+// Drops leftovers of interrupted clones and mirrors no longer tracked in the database
+export async function initMirrorStore() {
+    await fs.mkdir(MIRROR_ROOT, { recursive: true });
+    const tracked = new Set((await listMirrors()).map(mirror => path.basename(mirror.path)));
+    const entries = await fs.readdir(MIRROR_ROOT);
+    for (const entry of entries) {
+        if (MIRROR_ENTRY_PATTERN.test(entry) && !tracked.has(entry)) {
+            await fs.rm(path.join(MIRROR_ROOT, entry), { recursive: true, force: true });
+        }
+    }
+}
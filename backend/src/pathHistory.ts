@@ -0,0 +1,75 @@
+import { runGit } from './git.js';
+import type { PathEntry } from './types.js';
+
+// Autocomplete never needs more suggestions than fit in a dropdown
+const MAX_TREE_MATCHES = 50;
+
+// Normalizes a user-entered path: no leading `./` or `/`, no trailing slash
+export const normalizeRepoPath = (input: string): string | null => {
+    const path = input.trim().replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+    if (!path || path.split('/').some(segment => segment === '..' || segment === '')) {
+        return null;
+    }
+    return path;
+};
+
+const pathType = async (gitDir: string, path: string): Promise<PathEntry['type'] | null> => {
+    const output = await runGit(['ls-tree', '-z', 'HEAD', '--', path], { cwd: gitDir }).catch(() => '');
+    const entry = output.split('\0').find(line => line.endsWith(`\t${path}`));
+    if (!entry) return null;
+    return entry.split(' ')[1] === 'tree' ? 'directory' : 'file';
+};
+
+// Hashes of every commit (on any branch or tag) that touched `path`. Single
+// files are followed across renames; directories are matched as a prefix.
+export async function getPathHistory(gitDir: string, path: string): Promise<string[]> {
+    const type = await pathType(gitDir, path);
+    const followArgs = type === 'file' ? ['--follow'] : [];
+    const output = await runGit(['log', '--all', '--format=%H', ...followArgs, '--', path], { cwd: gitDir });
+    return output.split('\n').filter(Boolean);
+}
+
+// Sorted tree listings of recently searched mirrors, so autocomplete only
+// lists the tree again once HEAD has moved
+const TREE_CACHE_SIZE = 20;
+const treeCache = new Map<string, { head: string, entries: PathEntry[] }>();
+
+const listTree = async (gitDir: string, head: string): Promise<PathEntry[]> => {
+    const output = head ? await runGit(['ls-tree', '-r', '-z', '--name-only', head], { cwd: gitDir }).catch(() => '') : '';
+
+    const entries = new Map<string, PathEntry['type']>();
+    output.split('\0').filter(Boolean).forEach(file => {
+        const segments = file.split('/');
+        for (let i = 1; i < segments.length; i++) {
+            entries.set(segments.slice(0, i).join('/'), 'directory');
+        }
+        entries.set(file, 'file');
+    });
+
+    return Array.from(entries.entries())
+        .sort(([a], [b]) => a.length - b.length || a.localeCompare(b))
+        .map(([path, type]) => ({ path, type }));
+};
+
+// Files and directories at HEAD whose path contains `query`, shortest first
+export async function searchTree(gitDir: string, query: string): Promise<PathEntry[]> {
+    const head = (await runGit(['rev-parse', '--verify', '--quiet', 'HEAD^{commit}'], { cwd: gitDir }).catch(() => '')).trim();
+
+    let cached = treeCache.get(gitDir);
+    treeCache.delete(gitDir);
+    if (!cached || cached.head !== head) {
+        cached = { head, entries: await listTree(gitDir, head) };
+    }
+    treeCache.set(gitDir, cached);
+    if (treeCache.size > TREE_CACHE_SIZE) {
+        treeCache.delete(treeCache.keys().next().value!);
+    }
+
+    const needle = query.trim().toLowerCase();
+    const matches: PathEntry[] = [];
+    for (const entry of cached.entries) {
+        if (matches.length >= MAX_TREE_MATCHES) break;
+        if (entry.path.toLowerCase().includes(needle)) matches.push(entry);
+    }
+    return matches;
+}
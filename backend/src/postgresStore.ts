@@ -0,0 +1,77 @@
+import { createSqlStore, runTransaction } from './sqlStore.js';
+import type { SqlConnection } from './migrations.js';
+import type { RepoStore } from './repoStore.js';
+
+// Managed database hosts that require SSL (with their own certificates)
+const SSL_HOSTS = ['koyeb.app', 'amazonaws.com', 'googleapis.com', 'render.com', 'supabase.co'];
+
+// PostgreSQL implementation (for Koyeb database service)
+export function createPostgresStore(databaseUrl: string): RepoStore {
+    let pgPool: Promise<any> | null = null;
+
+    const connect = () => {
+        if (!pgPool) {
+            pgPool = (async () => {
+                const pg = await import('pg');
+                const { Pool } = pg;
+                const pool = new Pool({
+                    connectionString: databaseUrl,
+                    ssl: SSL_HOSTS.some(host => databaseUrl.includes(host)) ? { rejectUnauthorized: false } : false
+                });
+
+                // Idle clients that lose their connection are dropped by the pool;
+                // the handler only keeps the error from crashing the process
+                pool.on('error', (err: Error) => {
+                    console.error('[DATABASE] PostgreSQL client error:', err.message);
+                });
+
+                try {
+                    (await pool.connect()).release();
+                } catch (error: any) {
+                    console.error('[DATABASE] Failed to connect to PostgreSQL:', error.message);
+                    pool.end().catch(() => {});
+                    throw error;
+                }
+                return pool;
+            })();
+            // A failed connection is retried on the next call
+            pgPool.catch(() => { pgPool = null; });
+        }
+        return pgPool;
+    };
+
+    // `?` placeholders are numbered the way pg expects them
+    const queryOn = (target: any): SqlConnection['query'] => async (sql, params = []) => {
+        let index = 0;
+        const result = await target.query(sql.replace(/\?/g, () => `$${++index}`), params);
+        return result.rows;
+    };
+
+    // Statements outside a transaction take any client of the pool; each
+    // transaction checks one out for itself until it ends
+    const connection: SqlConnection = {
+        dialect: 'postgres',
+        query: async (sql, params) => queryOn(await connect())(sql, params),
+        async transaction(fn, options = {}) {
+            const client = await (await connect()).connect();
+            try {
+                const begin = options.readOnly ? 'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY' : 'BEGIN';
+                const result = await runTransaction('postgres', queryOn(client), fn, begin);
+                client.release();
+                return result;
+            } catch (error) {
+                // The client may be left mid-transaction; don't hand it out again
+                client.release(true);
+                throw error;
+            }
+        }
+    };
+
+    return {
+        driver: 'postgres',
+        ...createSqlStore(async () => {
+            await connect();
+            return connection;
+        })
+    };
+}
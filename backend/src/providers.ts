@@ -0,0 +1,257 @@
+import type { PullRequest, RepoVisibility } from './types.js';
+
+export type ProviderKind = 'github' | 'gitlab' | 'bitbucket' | 'generic';
+
+// HTTPS credentials sent as basic auth; each host expects its own user name
+// alongside a token
+export interface GitCredentials {
+    username: string;
+    token: string;
+}
+
+// A repository URL that passed validation
+export interface RepoLocation {
+    provider: GitProvider;
+    // URL used for cloning and as the cache key
+    url: string;
+    host: string;
+    // Repository path on the host, e.g. `owner/repo` or `group/subgroup/repo`
+    path: string;
+    transport: 'https' | 'http' | 'ssh' | 'git';
+}
+
+// A pull or merge request as listed by the host. Hosts that don't report the
+// base commit in their listings leave it to be resolved from the mirror.
+export interface RemotePullRequest extends Omit<PullRequest, 'baseSha'> {
+    baseSha: string | null;
+    targetBranch: string;
+}
+
+export interface GitProvider {
+    kind: ProviderKind;
+    matches(host: string): boolean;
+    // Token of the requesting user for this host: the OAuth session token for
+    // GitHub, a token the user added for GitLab and Bitbucket hosts. Never a
+    // server-wide token, which would let every visitor read whatever it can.
+    credentials(sessionToken?: string): GitCredentials | undefined;
+    // Users add their own token for the host (see /api/auth/tokens)
+    acceptsUserTokens: boolean;
+    listPullRequests?(location: RepoLocation, credentials?: GitCredentials): Promise<RemotePullRequest[]>;
+    // Visibility of the repository as seen with `credentials`, or null when it
+    // does not exist or they have no access to it
+    repoVisibility?(location: RepoLocation, credentials?: GitCredentials): Promise<RepoVisibility | null>;
+}
+
+// Self-hosted GitLab instances, e.g. `GITLAB_HOSTS=gitlab.example.com,git.corp.local`
+const GITLAB_HOSTS = ['gitlab.com', ...(process.env.GITLAB_HOSTS || '').split(',')]
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+// Other git servers the backend may clone from, e.g. `GIT_ALLOWED_HOSTS=git.example.com`.
+// Without it only the hosted providers above are accepted. Only users listed in
+// SERVER_ACCESS_READERS may name repositories on them (see repoAccess.ts).
+const GIT_ALLOWED_HOSTS = (process.env.GIT_ALLOWED_HOSTS || '').split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const fetchJson = async (url: string, headers: Record<string, string>): Promise<any> => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+        throw new Error(`${new URL(url).host} API returned ${response.status}`);
+    }
+    return response.json();
+};
+
+// Hosts answer 404 (GitHub, GitLab) or 401/403 (Bitbucket) for repositories
+// the caller cannot see, rather than revealing that they exist
+const NO_ACCESS_STATUSES = [401, 403, 404];
+
+const fetchVisibility = async (url: string, headers: Record<string, string>, isPrivate: (repo: any) => boolean): Promise<RepoVisibility | null> => {
+    const response = await fetch(url, { headers });
+    if (NO_ACCESS_STATUSES.includes(response.status)) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`${new URL(url).host} API returned ${response.status}`);
+    }
+    return isPrivate(await response.json()) ? 'private' : 'public';
+};
+
+const github: GitProvider = {
+    kind: 'github',
+    matches: host => host === 'github.com',
+    credentials: sessionToken => sessionToken ? { username: 'x-access-token', token: sessionToken } : undefined,
+    acceptsUserTokens: false,
+    async listPullRequests(location, credentials) {
+        const headers: Record<string, string> = { 'Accept': 'application/vnd.github.v3+json' };
+        if (credentials) headers['Authorization'] = `token ${credentials.token}`;
+        const prs = await fetchJson(`https://api.github.com/repos/${location.path}/pulls?state=all&per_page=100`, headers) as any[];
+        return prs.map(pr => ({
+            id: pr.id,
+            title: pr.title,
+            state: pr.merged_at ? 'merged' : pr.state,
+            headSha: pr.head.sha,
+            baseSha: pr.base.sha,
+            targetBranch: pr.base.ref
+        }));
+    },
+    repoVisibility(location, credentials) {
+        const headers: Record<string, string> = { 'Accept': 'application/vnd.github.v3+json' };
+        if (credentials) headers['Authorization'] = `token ${credentials.token}`;
+        return fetchVisibility(`https://api.github.com/repos/${location.path}`, headers, repo => repo.private);
+    }
+};
+
+const gitlab: GitProvider = {
+    kind: 'gitlab',
+    matches: host => GITLAB_HOSTS.includes(host),
+    credentials: sessionToken => sessionToken ? { username: 'oauth2', token: sessionToken } : undefined,
+    acceptsUserTokens: true,
+    async listPullRequests(location, credentials) {
+        const headers: Record<string, string> = {};
+        if (credentials) headers['Authorization'] = `Bearer ${credentials.token}`;
+        const project = encodeURIComponent(location.path);
+        const mrs = await fetchJson(`https://${location.host}/api/v4/projects/${project}/merge_requests?state=all&per_page=100`, headers) as any[];
+        // Listings carry only the head commit (diff_refs is on the single-MR
+        // endpoint alone), so the base is left to the merge-base fallback
+        return mrs.map(mr => ({
+            id: mr.id,
+            title: mr.title,
+            state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+            headSha: mr.sha,
+            baseSha: null,
+            targetBranch: mr.target_branch
+        }));
+    },
+    repoVisibility(location, credentials) {
+        const headers: Record<string, string> = {};
+        if (credentials) headers['Authorization'] = `Bearer ${credentials.token}`;
+        const project = encodeURIComponent(location.path);
+        // `internal` projects are visible to every user of the instance, but not to anonymous ones
+        return fetchVisibility(`https://${location.host}/api/v4/projects/${project}`, headers, repo => repo.visibility !== 'public');
+    }
+};
+
+const bitbucket: GitProvider = {
+    kind: 'bitbucket',
+    matches: host => host === 'bitbucket.org',
+    credentials: sessionToken => sessionToken ? { username: 'x-token-auth', token: sessionToken } : undefined,
+    acceptsUserTokens: true,
+    async listPullRequests(location, credentials) {
+        const headers: Record<string, string> = {};
+        if (credentials) headers['Authorization'] = `Bearer ${credentials.token}`;
+        const states = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'].map(state => `state=${state}`).join('&');
+        const page = await fetchJson(`https://api.bitbucket.org/2.0/repositories/${location.path}/pullrequests?${states}&pagelen=50`, headers);
+        // Bitbucket reports abbreviated hashes; the client matches them by prefix
+        return (page.values as any[]).map(pr => ({
+            id: pr.id,
+            title: pr.title,
+            state: pr.state === 'MERGED' ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+            headSha: pr.source.commit.hash,
+            baseSha: pr.destination.commit?.hash || null,
+            targetBranch: pr.destination.branch.name
+        }));
+    },
+    repoVisibility(location, credentials) {
+        const headers: Record<string, string> = {};
+        if (credentials) headers['Authorization'] = `Bearer ${credentials.token}`;
+        return fetchVisibility(`https://api.bitbucket.org/2.0/repositories/${location.path}`, headers, repo => repo.is_private);
+    }
+};
+
+// Servers listed in GIT_ALLOWED_HOSTS, reachable over SSH or HTTP(S); cloned without credentials
+const generic: GitProvider = {
+    kind: 'generic',
+    matches: host => GIT_ALLOWED_HOSTS.includes(host),
+    credentials: () => undefined,
+    acceptsUserTokens: false
+};
+
+const PROVIDERS = [github, gitlab, bitbucket, generic];
+
+export const findProvider = (host: string): GitProvider | null => PROVIDERS.find(candidate => candidate.matches(host)) ?? null;
+
+// Host names only; rules out option injection such as `-oProxyCommand=...`
+const HOST_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*$/;
+// Fully qualified names under an alphabetic top-level domain. Rules out IP
+// literals in any notation (`127.0.0.1`, `0x7f000001`, `169.254.169.254`) and
+// single-label names such as `localhost`, which point into the server's own network.
+const QUALIFIED_HOST_PATTERN = /\.[a-z][a-z0-9-]*$/;
+const PATH_SEGMENT_PATTERN = /^[A-Za-z0-9_.~-]+$/;
+// scp-like syntax, e.g. `git@example.com:group/repo.git`
+const SCP_PATTERN = /^([A-Za-z0-9_.-]+)@([^:/]+):(?!\/\/)(.+)$/;
+const USER_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const URL_TRANSPORTS: RepoLocation['transport'][] = ['https', 'http', 'ssh', 'git'];
+
+// Validates a repository URL from any supported host and normalizes it, so the
+// same repository always maps to the same cache entry and mirror. Accepts
+// https://, http://, ssh:// and git:// URLs as well as scp-like SSH addresses.
+export const parseRepoUrl = (input: unknown): RepoLocation | null => {
+    if (typeof input !== 'string') return null;
+    const trimmed = input.trim();
+
+    let transport: RepoLocation['transport'];
+    let user = '';
+    let host: string;
+    let port = '';
+    let rawPath: string;
+
+    const scp = SCP_PATTERN.exec(trimmed);
+    if (scp) {
+        transport = 'ssh';
+        [, user, host, rawPath] = scp;
+    } else {
+        let parsed: URL;
+        try {
+            parsed = new URL(trimmed);
+            rawPath = decodeURIComponent(parsed.pathname);
+        } catch {
+            return null;
+        }
+        const scheme = URL_TRANSPORTS.find(candidate => parsed.protocol === `${candidate}:`);
+        if (!scheme || parsed.password || parsed.search || parsed.hash) return null;
+        transport = scheme;
+        user = parsed.username;
+        host = parsed.hostname;
+        port = parsed.port;
+    }
+
+    host = host.toLowerCase();
+    if (!HOST_PATTERN.test(host) || !QUALIFIED_HOST_PATTERN.test(host)) return null;
+    // Credentials belong in the server configuration, not in URLs that end up in the cache
+    if (user && (transport !== 'ssh' || !USER_PATTERN.test(user))) return null;
+    // scp-like addresses are relative to the login directory unless they start with a slash
+    const absolute = scp && rawPath.startsWith('/') ? '/' : '';
+
+    const segments = rawPath.replace(/^\/+|\/+$/g, '').split('/');
+    if (segments.some(segment => !PATH_SEGMENT_PATTERN.test(segment) || segment === '.' || segment === '..')) return null;
+
+    const provider = findProvider(host);
+    if (!provider) return null;
+    if (provider.kind !== 'generic') {
+        // Hosted repositories are always `owner/repo` (GitLab allows nested groups)
+        const maxSegments = provider.kind === 'gitlab' ? Infinity : 2;
+        if (segments.length < 2 || segments.length > maxSegments) return null;
+        segments[segments.length - 1] = segments[segments.length - 1].replace(/\.git$/, '');
+        if (!segments[segments.length - 1]) return null;
+    }
+    const path = segments.join('/');
+
+    let url: string;
+    if (provider.kind !== 'generic') {
+        // Hosted providers are always reached over HTTPS, never with the server's SSH keys
+        transport = 'https';
+        url = `https://${host}/${path}`;
+    } else if (transport === 'ssh' && !port) {
+        url = `${user ? `${user}@` : ''}${host}:${absolute}${path}`;
+    } else {
+        url = `${transport}://${user ? `${user}@` : ''}${host}${port ? `:${port}` : ''}/${path}`;
+    }
+
+    return { provider, url, host, path, transport };
+};
+
+// Credentials are only ever sent over HTTPS to the host they were issued for
+export const resolveCredentials = (location: RepoLocation, sessionToken?: string): GitCredentials | undefined => {
+    if (location.transport !== 'https') return undefined;
+    return location.provider.credentials(sessionToken);
+};
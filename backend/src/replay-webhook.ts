@@ -0,0 +1,82 @@
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import dotenv from 'dotenv';
+
+// Replays sample webhook payloads against a running server, signed like GitHub
+// signs them, to try out live updates without a public URL.
+// Usage: npm run replay-webhook -- [payload.json]... [--repo <url>] [--url <endpoint>]
+
+const USAGE = `Usage: npm run replay-webhook -- [payload.json]... [options]
+
+Payloads default to samples/webhooks/push.json. Files named ping.json are sent
+as ping events, everything else as push events.
+
+Options:
+  -r, --repo <url>        Repository the payloads are about (overrides their repository URLs)
+  -u, --url <endpoint>    Webhook endpoint (default: http://localhost:$PORT/api/webhooks/github)
+  -s, --secret <secret>   Signing secret (default: GITHUB_WEBHOOK_SECRET from .env.local/.env)
+  -h, --help              Show this help`;
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '../.env.local') });
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+const fail = (message: string): never => {
+    console.error(`replay-webhook: ${message}`);
+    process.exit(1);
+};
+
+const { values, positionals } = parseArgs({
+    options: {
+        repo: { type: 'string', short: 'r' },
+        url: { type: 'string', short: 'u' },
+        secret: { type: 'string', short: 's' },
+        help: { type: 'boolean', short: 'h', default: false }
+    },
+    allowPositionals: true
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const secret = values.secret ?? process.env.GITHUB_WEBHOOK_SECRET?.trim();
+if (!secret) {
+    fail('no secret: pass --secret or set GITHUB_WEBHOOK_SECRET');
+}
+const endpoint = values.url ?? `http://localhost:${process.env.PORT || 3001}/api/webhooks/github`;
+
+// npm runs scripts from backend/, so resolve paths against where it was invoked
+const invokedFrom = process.env.INIT_CWD || process.cwd();
+const files = positionals.length > 0
+    ? positionals.map(file => path.resolve(invokedFrom, file))
+    : [path.join(__dirname, '../samples/webhooks/push.json')];
+
+for (const file of files) {
+    const payload = JSON.parse(await fs.readFile(file, 'utf8').catch(() => fail(`cannot read ${file}`)));
+    if (values.repo && payload.repository) {
+        payload.repository.clone_url = values.repo;
+        payload.repository.html_url = values.repo;
+    }
+
+    const body = JSON.stringify(payload);
+    const signature = `sha256=${crypto.createHmac('sha256', secret!).update(body).digest('hex')}`;
+    const event = path.basename(file, '.json') === 'ping' ? 'ping' : 'push';
+
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-GitHub-Event': event,
+            'X-GitHub-Delivery': crypto.randomUUID(),
+            'X-Hub-Signature-256': signature
+        },
+        body
+    }).catch(error => fail(`cannot reach ${endpoint}: ${error.message}`));
+
+    console.log(`${path.basename(file)} (${event}): ${response.status} ${await response.text()}`);
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { getRepoAccess, grantRepoAccess, hasRepoGrant } from './database.js';
+import type { GitCredentials, RepoLocation } from './providers.js';
+import type { RepoAccess } from './types.js';
+
+// How long a verified permission is trusted before the provider is asked again
+const ACCESS_GRANT_TTL_MS = parseInt(process.env.ACCESS_GRANT_TTL_MS || '', 10) || 10 * 60 * 1000;
+// GitHub logins that may use what the server reaches on its own SSH keys or
+// network position, e.g. `SERVER_ACCESS_READERS=alice,bob`. Without it no one may.
+const SERVER_ACCESS_READERS = (process.env.SERVER_ACCESS_READERS || '').split(',')
+    .map(login => login.trim().toLowerCase())
+    .filter(Boolean);
+
+// Stable id of a set of credentials, for recording who owns or may read a
+// cache entry without ever storing the token itself
+export const credentialId = (credentials?: GitCredentials): string | null => credentials
+    ? crypto.createHash('sha256').update(`${credentials.username}:${credentials.token}`).digest('hex')
+    : null;
+
+// Access to record for an analysis that was just fetched with `credentials`.
+// An HTTPS fetch from a hosted provider without credentials proves the
+// repository is public. Other hosts and transports may have let the server in
+// on its own network position or SSH keys, so those entries are private. With
+// credentials the provider is asked, and entries it cannot vouch for are private.
+export async function resolveRepoAccess(location: RepoLocation, credentials?: GitCredentials): Promise<RepoAccess> {
+    if (!credentials) {
+        const anonymous = location.transport === 'https' && location.provider.kind !== 'generic';
+        return { visibility: anonymous ? 'public' : 'private', owner: null };
+    }
+    const visibility = await location.provider.repoVisibility?.(location, credentials).catch(error => {
+        console.warn(`[ACCESS] Could not look up the visibility of ${location.url}:`, error.message);
+        return null;
+    });
+    return { visibility: visibility === 'public' ? 'public' : 'private', owner: credentialId(credentials) };
+}
+
+// Whether the signed-in GitHub user `login` may have the server fetch and serve
+// repositories on its own access, i.e. from hosts in GIT_ALLOWED_HOSTS
+export const mayUseServerAccess = (login?: string): boolean => !!login && SERVER_ACCESS_READERS.includes(login.toLowerCase());
+
+// Remembers that `credentials` could access the repository, e.g. because a
+// job just fetched it with them
+export async function grantAccess(location: RepoLocation, credentials?: GitCredentials) {
+    const id = credentialId(credentials);
+    if (id) {
+        await grantRepoAccess(location.url, id, Date.now() + ACCESS_GRANT_TTL_MS);
+    }
+}
+
+// Whether cached data of the repository (analysis, mirror, live updates) may
+// be served to a requester with `credentials`. Public entries are open to
+// everyone; private ones need a grant that has not expired, or the provider
+// confirming access right now. Private entries the server fetched without
+// credentials cannot be verified per user and are only served to the GitHub
+// user `login` when it is allowed the server's own access. Mirrors of
+// repositories with no recorded analysis, e.g. one that failed or is still
+// running, are served to no one.
+export async function canAccessRepo(location: RepoLocation, credentials: GitCredentials | undefined, login?: string): Promise<boolean> {
+    const access = await getRepoAccess(location.url);
+    if (!access) {
+        return false;
+    }
+    if (access.visibility === 'public') {
+        return true;
+    }
+    if (!access.owner) {
+        return mayUseServerAccess(login);
+    }
+
+    const id = credentialId(credentials);
+    if (!id) {
+        return false;
+    }
+    if (await hasRepoGrant(location.url, id)) {
+        return true;
+    }
+
+    const visibility = await location.provider.repoVisibility?.(location, credentials).catch(error => {
+        console.warn(`[ACCESS] Could not verify access to ${location.url}:`, error.message);
+        return null;
+    });
+    if (!visibility) {
+        return false;
+    }
+    await grantAccess(location, credentials);
+    return true;
+}
@@ -0,0 +1,56 @@
+import type { AnalysisDelta, AnalysisResult, JobKind, JobRecord, MirrorRecord, RepoAccess } from './types.js';
+
+export type StorageDriver = 'sqlite' | 'postgres' | 'memory';
+
+export type JobOutcome = { status: 'complete', result: any } | { status: 'failed', error: string } | { status: 'cancelled' };
+
+// Schema migrations applied when a store was opened, and the resulting version
+export interface MigrationReport {
+    applied: string[];
+    version: number;
+}
+
+// Everything the backend persists: cached analyses, the mirror cache metadata
+// and the job queue. Tables added later get their methods here, so every
+// driver has to implement them.
+export interface RepoStore {
+    driver: StorageDriver;
+    // Connects and brings the schema up to date; null for stores without one
+    init(): Promise<MigrationReport | null>;
+
+    // Resolves null when the repository was not analyzed, or last analyzed
+    // before `analyzedSince` (ms timestamp)
+    getRepo(url: string, analyzedSince?: number): Promise<AnalysisResult | null>;
+    storeRepo(url: string, data: AnalysisResult, access: RepoAccess): Promise<void>;
+    // Does nothing for repositories that have no stored analysis
+    updateRepo(url: string, delta: AnalysisDelta, access: RepoAccess): Promise<void>;
+    getRepoAccess(url: string): Promise<RepoAccess | null>;
+    // Records that the credentials with this id could access the repository,
+    // trusted until `expiresAt`. Does nothing for repositories that are not stored.
+    grantRepoAccess(url: string, credentialId: string, expiresAt: number): Promise<void>;
+    hasRepoGrant(url: string, credentialId: string, now: number): Promise<boolean>;
+
+    getMirror(url: string): Promise<MirrorRecord | null>;
+    listMirrors(): Promise<MirrorRecord[]>; // least recently used first
+    storeMirror(mirror: MirrorRecord): Promise<void>;
+    deleteMirror(url: string): Promise<void>;
+
+    insertJob(id: string, kind: JobKind, repoUrl: string, credentialId: string | null): Promise<void>;
+    getJob(id: string): Promise<JobRecord | null>;
+    // Oldest job of this kind for the repository, requested with the same
+    // credentials, that has not finished yet, or only one that has not started
+    // when `includeRunning` is false
+    findActiveJob(kind: JobKind, repoUrl: string, credentialId: string | null, includeRunning: boolean): Promise<JobRecord | null>;
+    // Atomically moves the oldest runnable pending job to processing and returns it
+    claimNextJob(): Promise<JobRecord | null>;
+    finishJob(id: string, outcome: JobOutcome): Promise<void>;
+    // Puts a job back in the queue after a failed attempt, to run again no earlier than `runAfter`
+    retryJob(id: string, runAfter: number, error: string): Promise<void>;
+    // Resolves with false when the job is not pending (anymore)
+    cancelPendingJob(id: string): Promise<boolean>;
+    // Jobs left in processing by a previous server process: those with attempts
+    // left go back to pending, the rest are failed. Returns how many were resumed.
+    recoverInterruptedJobs(maxAttempts: number): Promise<number>;
+    // Removes finished jobs (and their results) last updated before `cutoff`
+    deleteFinishedJobs(cutoff: number): Promise<void>;
+}
@@ -2,17 +2,28 @@
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
-import { exec } from 'child_process';
 import { promises as fs } from 'fs';
-import os from 'os';
-import type { RepoData, CommitNode } from './types';
 import crypto from 'crypto';
 import session from 'express-session';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { initDb, getRepo, storeRepo } from './database.js';
-import { addJob, getJobStatus, updateJobStatus } from './jobQueue.js';
+import { initDb, getRepo, getJob, storeRepo, updateRepo } from './database.js';
+import { addJob, getJobStatus, cancelJob, isJobFinished, initJobQueue, subscribeToJob, type JobContext, type JobState } from './jobQueue.js';
+import { LOG_ARGS, parseGitLog } from './gitLog.js';
+import { extendLayout } from './layout.js';
+import { analyzeRepository, countAuthors, readRefs } from './analysis.js';
+import { collectChurn } from './churn.js';
+import { getCommitDiff } from './diffParser.js';
+import { compareCommits } from './compare.js';
+import { getPathHistory, searchTree, normalizeRepoPath } from './pathHistory.js';
+import { runGit } from './git.js';
+import { withMirror, initMirrorStore } from './mirrorStore.js';
+import { parseRepoUrl, resolveCredentials, findProvider, type RepoLocation } from './providers.js';
+import { canAccessRepo, credentialId, grantAccess, mayUseServerAccess, resolveRepoAccess } from './repoAccess.js';
+import { verifyWebhookSignature, pushedRepoUrl } from './webhooks.js';
+import { subscribeToRepo, publishRepoUpdate } from './liveUpdates.js';
+import type { AnalysisResult, AnalysisDelta, CommitComparison, DiffStat, PathHistory, PullRequest } from './types.js';
 
 const app = express();
 // trust proxy is required for secure cookies behind a load balancer
@@ -52,6 +63,9 @@ app.use(cors({
     },
     credentials: true
 }));
+// Webhook signatures are computed over the raw body, so those requests are
+// kept as a Buffer; express.json() skips bodies that are already read
+app.use('/api/webhooks', express.raw({ type: 'application/json', limit: '25mb' }));
 app.use(express.json());
 
 // Note: Removed Partitioned cookie attribute - Firefox and Safari don't support it
@@ -104,8 +118,23 @@ const sessionConfig: session.SessionOptions = {
 app.use(session(sessionConfig));
 console.log('[SESSION] Session middleware initialized (store:', isProduction && DATABASE_URL ? 'PostgreSQL' : 'Memory', ', cookie sameSite:', sessionConfig.cookie?.sameSite, ')');
 
-// Initialize Database
-initDb();
+// Initialize Database, then clean up the mirror cache it tracks
+initDb()
+    .then(() => initMirrorStore())
+    .catch(error => console.error('[MIRRORS] Failed to initialize mirror cache:', error.message));
+
+// The queue starts once the database is ready, retrying until it is; the
+// handlers are hoisted functions below
+const JOB_QUEUE_RETRY_MS = 10000;
+const startJobQueue = () => {
+    initDb()
+        .then(() => initJobQueue({ analyze: processRepoAnalysis, refresh: processRepoRefresh }))
+        .catch(error => {
+            console.error(`[JOBS] Failed to start the job queue, retrying in ${JOB_QUEUE_RETRY_MS / 1000}s:`, error.message);
+            setTimeout(startJobQueue, JOB_QUEUE_RETRY_MS);
+        });
+};
+startJobQueue();
 
 // Initialize Gemini AI client
 let genAI: GoogleGenerativeAI | null = null;
@@ -139,94 +168,13 @@ const calculateConstellationLayout = (repos: any[]): any[] => {
     return reposWithPos;
 };
 
-// A simple layout algorithm for the git graph
-const calculateLayout = (commits: Map<string, { parentHashes: string[], message: string, author: string }>): RepoData => {
-    const repoData: RepoData = {};
-    const processedCommits = new Set<string>();
-    
-    // Adjacency list for children
-    const children = new Map<string, string[]>();
-    commits.forEach((commit, hash) => {
-        commit.parentHashes.forEach(parentHash => {
-            if (!children.has(parentHash)) {
-                children.set(parentHash, []);
-            }
-            children.get(parentHash)!.push(hash);
-        });
-    });
-
-    const rootHashes = Array.from(commits.keys()).filter(hash => commits.get(hash)!.parentHashes.length === 0);
-
-    let y = 0;
-    const lanes = new Map<string, number>(); // hash -> lane index
-    let nextLane = 0;
-
-    const assignLane = (hash: string): number => {
-        if (lanes.has(hash)) {
-            return lanes.get(hash)!;
-        }
-        
-        const parentHashes = commits.get(hash)?.parentHashes || [];
-        if (parentHashes.length > 0) {
-            const parentLane = assignLane(parentHashes[0]);
-            lanes.set(hash, parentLane);
-            return parentLane;
-        }
-
-        const newLane = nextLane++;
-        lanes.set(hash, newLane);
-        return newLane;
-    };
-
-
-    const traverse = (hash: string, currentY: number, lane: number) => {
-        if (processedCommits.has(hash)) return;
-        processedCommits.add(hash);
-
-        const x = lane * 2;
-        const z = (lane % 2) * 2 - 1; 
-
-        const commitData = commits.get(hash)!;
-        repoData[hash] = {
-            pos: [x, currentY, z],
-            parent: commitData.parentHashes.length > 0 ? commitData.parentHashes[0] : null,
-            message: commitData.message,
-            author: commitData.author
-        };
-
-        const commitChildren = children.get(hash) || [];
-        let childLane = lane;
-        commitChildren.forEach((childHash, index) => {
-            if (index > 0) {
-                nextLane++;
-                childLane = nextLane;
-            }
-             // Check for merge commit
-            const childNode = commits.get(childHash)!;
-            if (childNode.parentHashes.length > 1 && childNode.parentHashes[0] !== hash) {
-                // It's a merge and this is not the first parent, don't create a new lane
-                 traverse(childHash, currentY + 2, lanes.get(childNode.parentHashes[0])!);
-            } else {
-                 lanes.set(childHash, childLane);
-                 traverse(childHash, currentY + 2, childLane);
-            }
-        });
-    };
-
-    rootHashes.forEach(rootHash => {
-        lanes.set(rootHash, nextLane);
-        traverse(rootHash, y, nextLane);
-        nextLane++;
-    });
-
-    return repoData;
-};
-
 // GitHub OAuth Configuration
 // Trim whitespace from environment variables (in case .env file has spaces)
 const GITHUB_CLIENT_ID = (process.env.GITHUB_CLIENT_ID || '').trim();
 const GITHUB_CLIENT_SECRET = (process.env.GITHUB_CLIENT_SECRET || '').trim();
 const REDIRECT_URI = (process.env.REDIRECT_URI || 'http://localhost:3001/api/auth/github/callback').replace(/\/$/, '');
+// Shared secret of the push webhook; webhooks are disabled without it
+const GITHUB_WEBHOOK_SECRET = (process.env.GITHUB_WEBHOOK_SECRET || '').trim();
 
 // Declare session type for TypeScript
 declare module 'express-session' {
@@ -234,6 +182,8 @@ declare module 'express-session' {
         state?: string;
         access_token?: string;
         user?: any;
+        // Tokens the user added for GitLab and Bitbucket hosts, by host
+        host_tokens?: Record<string, string>;
     }
 }
 
@@ -376,6 +326,39 @@ app.post('/api/auth/logout', (req: express.Request, res: express.Response) => {
     });
 });
 
+// Personal access or OAuth tokens for GitLab and Bitbucket hosts. They are
+// kept in the session like the GitHub token; only the host names are ever
+// sent back. Printable ASCII only, as the token ends up in an HTTP header.
+const HOST_TOKEN_PATTERN = /^[\x21-\x7e]{1,512}$/;
+
+const tokenHosts = (req: express.Request) => Object.keys(req.session.host_tokens || {});
+
+app.get('/api/auth/tokens', (req: express.Request, res: express.Response) => {
+    res.json({ hosts: tokenHosts(req) });
+});
+
+app.post('/api/auth/tokens', (req: express.Request, res: express.Response) => {
+    const host = typeof req.body.host === 'string' ? req.body.host.trim().toLowerCase() : '';
+    const token = typeof req.body.token === 'string' ? req.body.token.trim() : '';
+
+    if (!findProvider(host)?.acceptsUserTokens) {
+        return res.status(400).json({ error: 'Tokens can only be added for GitLab and Bitbucket hosts' });
+    }
+    if (!HOST_TOKEN_PATTERN.test(token)) {
+        return res.status(400).json({ error: 'Invalid token' });
+    }
+
+    req.session.host_tokens = { ...req.session.host_tokens, [host]: token };
+    res.json({ hosts: tokenHosts(req) });
+});
+
+app.delete('/api/auth/tokens/:host', (req: express.Request, res: express.Response) => {
+    const hostTokens = { ...req.session.host_tokens };
+    delete hostTokens[req.params.host.toLowerCase()];
+    req.session.host_tokens = hostTokens;
+    res.json({ hosts: tokenHosts(req) });
+});
+
 // Get user's repositories
 app.get('/api/user/repos', async (req: express.Request, res: express.Response) => {
     if (!req.session.access_token) {
@@ -419,288 +402,551 @@ app.get('/api/user/repos', async (req: express.Request, res: express.Response) =
     }
 });
 
-// Background processing function
-async function processRepoAnalysis(repoUrl: string, jobId: string, accessToken?: string) {
-    updateJobStatus(jobId, 'processing');
-    let tempDir: string | null = null;
+// Background processing function, run by the job queue: resolves with the job
+// result and throws to fail the job
+async function processRepoAnalysis(repoUrl: string, context: JobContext): Promise<AnalysisResult> {
+    const { credentials, reportProgress, signal } = context;
+    const location = parseRepoUrl(repoUrl);
+    if (!location) {
+        throw new Error('Invalid repository URL.');
+    }
+    // --all so commits only reachable from non-default branches and tags are included too
+    const result = await withMirror(repoUrl, { credentials, fetch: true, onProgress: reportProgress, signal }, gitDir =>
+        analyzeRepository(gitDir, ['--all'], { onProgress: reportProgress, signal }));
 
-    try {
-        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-galaxy-'));
-        
-        // Prepare git clone command with authentication if available
-        let cloneCommand = `git clone --bare ${repoUrl} .`;
-        const env = { ...process.env };
-        
-        if (accessToken) {
-            const urlWithAuth = repoUrl.replace('https://', `https://${accessToken}@`);
-            cloneCommand = `git clone --bare ${urlWithAuth} .`;
-        }
-        
-        await new Promise<void>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            exec(cloneCommand, { cwd: tempDir, env }, (error: any, stdout: any, stderr: any) => {
-                if (error) {
-                    return reject(new Error('Failed to clone repository. It may be private or the URL is incorrect.'));
-                }
-                resolve();
-            });
-        });
+    if (!result) {
+        throw new Error('This repository appears to be empty.');
+    }
 
-        const logOutput = await new Promise<string>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            const format = `"%H|%P|%an|%s"`;
-            exec(`git log --pretty=format:${format}`, { cwd: tempDir }, (error: any, stdout: string, stderr: any) => {
-                if (error) {
-                    return reject(new Error('Failed to read git log from the repository.'));
-                }
-                resolve(stdout);
-            });
-        });
+    const { repoData, authors, refs } = result;
+    
+    // Validate result structure
+    if (!repoData || typeof repoData !== 'object' || Object.keys(repoData).length === 0) {
+        throw new Error('Generated repository data is empty or invalid');
+    }
+    
+    console.log(`[REPO ANALYSIS] Completed for ${repoUrl}: ${Object.keys(repoData).length} commits, ${authors.length} authors, ${refs.length} refs`);
+    signal.throwIfAborted();
+    reportProgress({ stage: 'storing', percent: null });
+    await storeRepo(repoUrl, result, await resolveRepoAccess(location, credentials));
+    await grantAccess(location, credentials);
+    return result;
+}
 
-        const commits = new Map<string, { parentHashes: string[], message: string, author: string }>();
-        logOutput.split('\n').filter(line => line.length > 0).forEach(line => {
-            const [hash, parentHashesStr, author, ...messageParts] = line.split('|');
-            const parentHashes = parentHashesStr ? parentHashesStr.split(' ') : [];
-            const message = messageParts.join('|');
-            commits.set(hash, { parentHashes, message, author: author || 'Unknown' });
+// Incremental refresh: fetch the mirror, read only the commits that are not
+// reachable from the heads we already know, and lay them out on top of the
+// cached galaxy without moving existing stars
+async function processRepoRefresh(repoUrl: string, context: JobContext): Promise<AnalysisDelta | AnalysisResult> {
+    const { credentials, reportProgress, signal } = context;
+    const location = parseRepoUrl(repoUrl);
+    if (!location) {
+        throw new Error('Invalid repository URL.');
+    }
+    // Only lay out new commits when we have a previous analysis to build on,
+    // otherwise fall back to a full analysis
+    const existing = await getRepo(repoUrl, { allowStale: true });
+    if (!existing || !existing.refs) {
+        return processRepoAnalysis(repoUrl, context);
+    }
+
+    const delta = await withMirror(repoUrl, { credentials, fetch: true, onProgress: reportProgress, signal }, async (gitDir): Promise<AnalysisDelta> => {
+        reportProgress({ stage: 'reading', percent: null });
+        const knownHeads = Array.from(new Set(existing.refs.map(ref => ref.target)));
+        // Known heads are excluded through stdin: repositories with many tags
+        // would exceed the command line length limit
+        const newRevisions = ['--all', '--ignore-missing', '--stdin'];
+        const excludedHeads = knownHeads.map(head => `^${head}\n`).join('');
+        const logOutput = await runGit([...LOG_ARGS, ...newRevisions], { cwd: gitDir, signal, input: excludedHeads }).catch(() => {
+            throw new Error('Failed to read git log from the repository.');
         });
 
-        if (commits.size === 0) {
-            updateJobStatus(jobId, 'failed', undefined, 'This repository appears to be empty.');
-            return;
-        }
+        // Commits already in the galaxy can show up again when a known head was rewritten
+        const newCommits = parseGitLog(logOutput);
+        Object.keys(existing.repoData).forEach(hash => newCommits.delete(hash));
 
-        const repoData = calculateLayout(commits);
-        
-        // Calculate authors
-        const authorMap = new Map<string, number>();
-        Object.values(repoData).forEach(node => {
-            const count = authorMap.get(node.author) || 0;
-            authorMap.set(node.author, count + 1);
-        });
-        const authors = Array.from(authorMap.entries()).map(([name, count]) => ({ name, commitCount: count }));
+        // Analyses stored before churn was collected need the whole history once
+        const churn = existing.churn
+            ? await collectChurn(gitDir, newRevisions, existing.churn, signal, excludedHeads)
+            : await collectChurn(gitDir, ['--all'], [], signal);
 
-        const result = { repoData, authors };
-        
-        // Validate result structure
-        if (!repoData || typeof repoData !== 'object' || Object.keys(repoData).length === 0) {
-            updateJobStatus(jobId, 'failed', undefined, 'Generated repository data is empty or invalid');
-            return;
+        signal.throwIfAborted();
+        reportProgress({ stage: 'layout', percent: null });
+        const added = extendLayout(existing.repoData, newCommits);
+        const repoData = { ...existing.repoData, ...added };
+        return { added, authors: countAuthors(repoData), refs: await readRefs(gitDir, repoData), churn };
+    });
+
+    console.log(`[REPO REFRESH] Completed for ${repoUrl}: ${Object.keys(delta.added).length} new commits`);
+    signal.throwIfAborted();
+    reportProgress({ stage: 'storing', percent: null });
+    // The fetch just succeeded with these credentials, so visibility is re-checked with them
+    await updateRepo(repoUrl, delta, await resolveRepoAccess(location, credentials));
+    await grantAccess(location, credentials);
+    publishRepoUpdate(repoUrl, delta);
+    return delta;
+}
+
+// Credentials of the requester for the repository's host: the GitHub session
+// token, or the token they added for a GitLab or Bitbucket host
+const getSessionCredentials = (req: express.Request, location: RepoLocation) => resolveCredentials(
+    location,
+    location.provider.acceptsUserTokens ? req.session?.host_tokens?.[location.host] : req.session?.access_token
+);
+
+// GitHub login of the signed-in user
+const sessionLogin = (req: express.Request): string | undefined =>
+    req.session?.access_token ? req.session.user?.login : undefined;
+
+// Repository URL named by a request. Hosts in GIT_ALLOWED_HOSTS are reached with
+// the server's own SSH keys or network position, so only users allowed that
+// access may name one.
+const parseRequestedRepoUrl = (req: express.Request, input: unknown): RepoLocation | null => {
+    const location = parseRepoUrl(input);
+    return location && (location.provider.kind !== 'generic' || mayUseServerAccess(sessionLogin(req))) ? location : null;
+};
+
+app.post('/api/analyze', async (req: express.Request, res: express.Response) => {
+    const location = parseRequestedRepoUrl(req, req.body.repoUrl);
+
+    if (!location) {
+        return res.status(400).json({ message: 'Invalid repository URL.' });
+    }
+    const repoUrl = location.url;
+
+    const credentials = getSessionCredentials(req, location);
+
+    try {
+        // Check database cache first. Requesters who cannot access a private entry
+        // get a job of their own instead, which fails unless their credentials can fetch it.
+        const cached = await getRepo(repoUrl);
+        if (cached && await canAccessRepo(location, credentials, sessionLogin(req))) {
+            return res.json(cached);
         }
-        
-        console.log(`[REPO ANALYSIS] Completed for ${repoUrl}: ${Object.keys(repoData).length} commits, ${authors.length} authors`);
-        storeRepo(repoUrl, result);
-        updateJobStatus(jobId, 'complete', result);
 
+        // Queue a background job, or join the one already running for this repository
+        const jobId = await addJob('analyze', repoUrl, credentials);
+
+        // Return job ID immediately
+        res.status(202).json({ jobId, status: 'processing' });
     } catch (error: any) {
-        updateJobStatus(jobId, 'failed', undefined, error.message || 'An internal server error occurred.');
-    } finally {
-        if (tempDir) {
-            try {
-                await fs.rm(tempDir, { recursive: true, force: true });
-            } catch (cleanupError) {
-                // Silent cleanup failure
-            }
+        console.error('[REPO ANALYSIS] Failed to queue analysis:', error.message);
+        res.status(500).json({ message: 'Failed to start the analysis. Please try again later.' });
+    }
+});
+
+// Whether the job was queued with the requester's credentials. A job's result
+// may be a private repository's analysis, so to anyone else it does not exist.
+const isJobRequester = async (req: express.Request, jobId: string) => {
+    const job = await getJob(jobId);
+    const location = job ? parseRepoUrl(job.repoUrl) : null;
+    if (!job || !location) return false;
+    return credentialId(getSessionCredentials(req, location)) === job.credentialId;
+};
+
+// Job status endpoint
+app.get('/api/job/:id/status', async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    try {
+        const status = await isJobRequester(req, id) ? await getJobStatus(id) : null;
+
+        if (!status) {
+            return res.status(404).json({ error: 'Job not found' });
         }
+
+        res.json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to read job status' });
     }
-}
+});
 
-app.post('/api/analyze', async (req: express.Request, res: express.Response) => {
-    const { repoUrl } = req.body;
+// Starts a Server-Sent Events response; events are then written with res.write
+const openEventStream = (res: express.Response) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Keep reverse proxies from buffering the stream
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+};
 
-    if (!repoUrl || !/^https:\/\/github\.com\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/.test(repoUrl)) {
-        return res.status(400).json({ message: 'Invalid GitHub repository URL.' });
+// Job progress as Server-Sent Events: the current state right away, then every
+// change until the job completes or fails. Each event carries the same JSON as
+// the status endpoint.
+app.get('/api/job/:id/events', async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    let initial: JobState | null;
+    try {
+        initial = await isJobRequester(req, id) ? await getJobStatus(id) : null;
+    } catch (error: any) {
+        return res.status(500).json({ error: error.message || 'Failed to read job status' });
     }
 
-    // Check database cache first
-    const cached = getRepo(repoUrl);
-    if (cached) {
-        return res.json(cached);
+    if (!initial) {
+        return res.status(404).json({ error: 'Job not found' });
     }
 
-    // Create background job
-    const jobId = addJob(repoUrl);
-    const accessToken = req.session?.access_token;
-    
-    // Start background processing
-    processRepoAnalysis(repoUrl, jobId, accessToken).catch(() => {
-        // Error already handled in processRepoAnalysis
-    });
+    openEventStream(res);
+
+    let closed = false;
+    const send = (state: JobState | null) => {
+        if (closed || !state) return;
+        res.write(`data: ${JSON.stringify(state)}\n\n`);
+        if (isJobFinished(state.status)) {
+            close();
+        }
+    };
+
+    // The job may also finish in another server process, where no events reach
+    // this one: re-read the stored state now and then, which doubles as a keepalive
+    const heartbeat = setInterval(() => {
+        getJobStatus(id).then(state => {
+            if (state && isJobFinished(state.status)) send(state);
+            else if (!closed) res.write(': keepalive\n\n');
+        }).catch(() => {});
+    }, 15000);
+    const unsubscribe = subscribeToJob(id, send);
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+    };
+    req.on('close', close);
 
-    // Return job ID immediately
-    res.status(202).json({ jobId, status: 'processing' });
+    // Read again now that we are subscribed, so a change in between is not lost
+    send(await getJobStatus(id).catch(() => initial));
 });
 
-// Job status endpoint
-app.get('/api/job/:id/status', (req: express.Request, res: express.Response) => {
+// Cancel a job: a pending job never starts, a running one has its git
+// processes killed and its partial clone removed
+app.post('/api/job/:id/cancel', async (req: express.Request, res: express.Response) => {
     const { id } = req.params;
-    const status = getJobStatus(id);
-    
-    if (!status) {
-        return res.status(404).json({ error: 'Job not found' });
+    try {
+        const state = await isJobRequester(req, id) ? await cancelJob(id) : null;
+
+        if (!state) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        if (state.status !== 'cancelled') {
+            const error = isJobFinished(state.status) ? `Job has already ${state.status === 'complete' ? 'completed' : 'failed'}` : 'Job is running on another server';
+            return res.status(409).json({ error, status: state.status });
+        }
+
+        res.json({ status: state.status });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to cancel job' });
     }
-    
-    res.json(status);
 });
 
 // Repository refresh endpoint
 app.post('/api/repo/refresh', async (req: express.Request, res: express.Response) => {
-    const { repoUrl } = req.body;
+    const location = parseRequestedRepoUrl(req, req.body.repoUrl);
 
-    if (!repoUrl || !/^https:\/\/github\.com\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/.test(repoUrl)) {
-        return res.status(400).json({ message: 'Invalid GitHub repository URL.' });
+    if (!location) {
+        return res.status(400).json({ message: 'Invalid repository URL.' });
     }
+    const repoUrl = location.url;
 
-    // Invalidate cache and reprocess
-    const jobId = addJob(repoUrl);
-    const accessToken = req.session?.access_token;
-    
-    processRepoAnalysis(repoUrl, jobId, accessToken).catch(() => {
-        // Error already handled in processRepoAnalysis
+    const credentials = getSessionCredentials(req, location);
+    try {
+        const jobId = await addJob('refresh', repoUrl, credentials);
+        res.status(202).json({ jobId, status: 'processing' });
+    } catch (error: any) {
+        console.error('[REPO REFRESH] Failed to queue refresh:', error.message);
+        res.status(500).json({ message: 'Failed to start the refresh. Please try again later.' });
+    }
+});
+
+// Live channel of a repository as Server-Sent Events: the delta of every
+// refresh, whether started from the UI or by a push webhook
+app.get('/api/repo/live', async (req: express.Request, res: express.Response) => {
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL.' });
+    }
+    try {
+        if (!(await canAccessRepo(location, getSessionCredentials(req, location), sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found.' });
+        }
+    } catch (error: any) {
+        return res.status(500).json({ error: error.message || 'Failed to open live channel' });
+    }
+
+    openEventStream(res);
+    // Reconnect after a few seconds when the server restarts
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = subscribeToRepo(location.url, delta => {
+        res.write(`data: ${JSON.stringify(delta)}\n\n`);
     });
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), 15000);
+    req.on('close', () => {
+        clearInterval(keepalive);
+        unsubscribe();
+    });
+});
 
-    res.status(202).json({ jobId, status: 'processing' });
+// GitHub push webhook: refreshes an analyzed repository as soon as commits are
+// pushed, and the live channel brings them to open galaxies. The hook needs
+// content type application/json and GITHUB_WEBHOOK_SECRET as its secret.
+app.post('/api/webhooks/github', async (req: express.Request, res: express.Response) => {
+    if (!GITHUB_WEBHOOK_SECRET) {
+        return res.status(503).json({ error: 'Webhooks are not configured' });
+    }
+    const payload: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyWebhookSignature(payload, req.get('X-Hub-Signature-256'), GITHUB_WEBHOOK_SECRET)) {
+        return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    const event = req.get('X-GitHub-Event');
+    if (event === 'ping') {
+        return res.json({ message: 'pong' });
+    }
+    if (event !== 'push') {
+        return res.status(202).json({ message: `Ignored ${event || 'unknown'} event` });
+    }
+
+    let body: any;
+    try {
+        body = JSON.parse(payload.toString('utf8'));
+    } catch {
+        return res.status(400).json({ error: 'Payload is not valid JSON' });
+    }
+    const location = parseRepoUrl(pushedRepoUrl(body));
+    if (!location) {
+        return res.status(400).json({ error: 'Payload has no valid repository URL' });
+    }
+
+    try {
+        // Only galaxies someone has opened are kept live; a webhook alone never
+        // clones a repository
+        const existing = await getRepo(location.url, { allowStale: true });
+        if (!existing) {
+            return res.status(202).json({ message: 'Repository has not been analyzed' });
+        }
+
+        const jobId = await addJob('refresh', location.url, resolveCredentials(location), { startsLater: true });
+        console.log(`[WEBHOOK] Push to ${location.url}, queued ${jobId}`);
+        res.status(202).json({ jobId, status: 'processing' });
+    } catch (error: any) {
+        // GitHub redelivers hooks that fail
+        console.error(`[WEBHOOK] Failed to queue a refresh of ${location.url}:`, error.message);
+        res.status(500).json({ error: 'Failed to queue refresh' });
+    }
 });
 
 
-// Commit diff statistics endpoint
+// Commit diff statistics endpoint (totals only; see /files for the per-file diff)
 app.get('/api/repo/commit/:hash/diff', async (req: express.Request, res: express.Response) => {
     const { hash } = req.params;
-    const { repoUrl } = req.query;
 
-    if (!repoUrl || typeof repoUrl !== 'string') {
+    if (!req.query.repoUrl) {
         return res.status(400).json({ error: 'Missing repoUrl query parameter' });
     }
 
-    if (!/^https:\/\/github\.com\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/.test(repoUrl)) {
-        return res.status(400).json({ error: 'Invalid GitHub repository URL' });
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
     }
 
-    let tempDir: string | null = null;
+    if (!/^[0-9a-f]{4,40}$/i.test(hash)) {
+        return res.status(400).json({ error: 'Invalid commit hash' });
+    }
 
     try {
-        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-galaxy-diff-'));
-        const accessToken = req.session?.access_token;
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
+        }
+
+        const diff = await withMirror(location.url, { credentials, requireCommit: hash }, gitDir =>
+            getCommitDiff(gitDir, hash).catch(() => {
+                throw new Error('Failed to get commit diff');
+            })
+        );
 
-        // Clone the repository
-        let cloneCommand = `git clone --bare ${repoUrl} .`;
-        const env = { ...process.env };
+        const diffStat: DiffStat = {
+            filesChanged: diff.filesChanged,
+            insertions: diff.insertions,
+            deletions: diff.deletions
+        };
+        res.json(diffStat);
+
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to fetch diff statistics' });
+    }
+});
+
+// Per-file diff of a commit: status, line counts and patch hunks of every
+// changed file. Binary, generated and very large files come back collapsed.
+app.get('/api/repo/commit/:hash/files', async (req: express.Request, res: express.Response) => {
+    const { hash } = req.params;
 
-        if (accessToken) {
-            const urlWithAuth = repoUrl.replace('https://', `https://${accessToken}@`);
-            cloneCommand = `git clone --bare ${urlWithAuth} .`;
+    if (!req.query.repoUrl) {
+        return res.status(400).json({ error: 'Missing repoUrl query parameter' });
+    }
+
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
+
+    if (!/^[0-9a-f]{4,40}$/i.test(hash)) {
+        return res.status(400).json({ error: 'Invalid commit hash' });
+    }
+
+    try {
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
         }
 
-        await new Promise<void>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            exec(cloneCommand, { cwd: tempDir, env }, (error: any, stdout: any, stderr: any) => {
-                if (error) {
-                    return reject(new Error('Failed to clone repository'));
-                }
-                resolve();
-            });
-        });
+        const diff = await withMirror(location.url, { credentials, requireCommit: hash }, gitDir =>
+            getCommitDiff(gitDir, hash).catch(() => {
+                throw new Error('Failed to get commit diff');
+            })
+        );
 
-        // Get diff statistics
-        const diffOutput = await new Promise<string>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            exec(`git show --stat ${hash}`, { cwd: tempDir }, (error: any, stdout: string, stderr: any) => {
-                if (error) {
-                    return reject(new Error('Failed to get commit diff'));
-                }
-                resolve(stdout);
-            });
-        });
+        res.json(diff);
 
-        // Parse diff statistics
-        let filesChanged = 0;
-        let insertions = 0;
-        let deletions = 0;
-
-        const lines = diffOutput.split('\n');
-        lines.forEach(line => {
-            // Count files changed
-            if (line.includes('|')) {
-                filesChanged++;
-                // Parse insertions/deletions from lines like " 5 files changed, 100 insertions(+), 50 deletions(-)"
-                const insertMatch = line.match(/(\d+)\s*insertion/i);
-                const deleteMatch = line.match(/(\d+)\s*deletion/i);
-                if (insertMatch) {
-                    insertions += parseInt(insertMatch[1], 10);
-                }
-                if (deleteMatch) {
-                    deletions += parseInt(deleteMatch[1], 10);
-                }
-            }
-        });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to fetch commit diff' });
+    }
+});
+
+// Merge base, ahead/behind counts and diff stat between two commits
+app.get('/api/repo/compare', async (req: express.Request, res: express.Response) => {
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
+
+    const { base, head } = req.query;
+    if (typeof base !== 'string' || typeof head !== 'string' || ![base, head].every(hash => /^[0-9a-f]{4,40}$/i.test(hash))) {
+        return res.status(400).json({ error: 'Invalid commit hash' });
+    }
 
-        // Also check the summary line
-        const summaryMatch = diffOutput.match(/(\d+)\s+files? changed.*?(\d+)\s+insertion.*?(\d+)\s+deletion/i);
-        if (summaryMatch) {
-            filesChanged = parseInt(summaryMatch[1], 10);
-            insertions = parseInt(summaryMatch[2], 10);
-            deletions = parseInt(summaryMatch[3], 10);
+    try {
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
         }
+        const comparison: CommitComparison = await withMirror(location.url, { credentials, requireCommit: head }, gitDir =>
+            compareCommits(gitDir, base, head).catch(() => {
+                throw new Error('Failed to compare commits');
+            })
+        );
+        res.json(comparison);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to compare commits' });
+    }
+});
 
-        res.json({
-            filesChanged: filesChanged || 0,
-            insertions: insertions || 0,
-            deletions: deletions || 0
-        });
+// Commits that touched a file or directory, for highlighting its history
+app.get('/api/repo/path-history', async (req: express.Request, res: express.Response) => {
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
+
+    const path = typeof req.query.path === 'string' ? normalizeRepoPath(req.query.path) : null;
+    if (!path) {
+        return res.status(400).json({ error: 'Invalid path' });
+    }
 
+    try {
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
+        }
+        const hashes = await withMirror(location.url, { credentials }, gitDir =>
+            getPathHistory(gitDir, path).catch(() => {
+                throw new Error('Failed to read path history');
+            })
+        );
+
+        const history: PathHistory = { path, hashes };
+        res.json(history);
     } catch (error: any) {
-        res.status(500).json({ error: error.message || 'Failed to fetch diff statistics' });
-    } finally {
-        if (tempDir) {
-            try {
-        await fs.rm(tempDir, { recursive: true, force: true });
-            } catch (cleanupError) {
-                // Silent cleanup failure
-            }
+        res.status(500).json({ error: error.message || 'Failed to read path history' });
+    }
+});
+
+// Paths in the repository tree matching a query, for autocomplete
+app.get('/api/repo/tree', async (req: express.Request, res: express.Response) => {
+    const location = parseRequestedRepoUrl(req, req.query.repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
+
+    const query = typeof req.query.query === 'string' ? req.query.query : '';
+
+    try {
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
         }
+        const paths = await withMirror(location.url, { credentials }, gitDir => searchTree(gitDir, query));
+        res.json(paths);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message || 'Failed to list repository tree' });
     }
 });
 
-// Pull Requests endpoint
+// Pull Requests endpoint: GitHub pull requests, GitLab merge requests and
+// Bitbucket pull requests, all mapped onto PullRequest
 app.get('/api/repo/prs', async (req: express.Request, res: express.Response) => {
     const { owner, repo } = req.query;
-    
-    if (!owner || !repo) {
-        return res.status(400).json({ error: 'Missing owner and repo parameters' });
+    // owner/repo is the older GitHub-only form of this endpoint
+    const repoUrl = req.query.repoUrl || (owner && repo ? `https://github.com/${owner}/${repo}` : undefined);
+
+    if (!repoUrl) {
+        return res.status(400).json({ error: 'Missing repoUrl parameter' });
     }
 
-    if (!req.session?.access_token) {
+    const location = parseRequestedRepoUrl(req, repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
+
+    if (!location.provider.listPullRequests) {
+        return res.json([]);
+    }
+
+    const credentials = getSessionCredentials(req, location);
+    if (!credentials) {
         return res.status(401).json({ error: 'Authentication required' });
     }
 
     try {
-        const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/pulls?state=all&per_page=100`, {
-            headers: {
-                'Authorization': `token ${req.session.access_token}`,
-                'Accept': 'application/vnd.github.v3+json'
-            }
-        });
-
-        if (!response.ok) {
-            throw new Error(`GitHub API returned ${response.status}`);
+        const remotePRs = await location.provider.listPullRequests(location, credentials);
+
+        // Bases the host didn't report are the merge base with the target branch,
+        // read from the mirror when the requester may see it
+        const unresolved = remotePRs.filter(pr => !pr.baseSha);
+        if (unresolved.length > 0 && await canAccessRepo(location, credentials, sessionLogin(req))) {
+            await withMirror(location.url, { credentials }, async gitDir => {
+                for (const pr of unresolved) {
+                    if (!/^[0-9a-f]{4,40}$/i.test(pr.headSha)) continue;
+                    const mergeBase = await runGit(['merge-base', '--', pr.headSha, `refs/heads/${pr.targetBranch}`], { cwd: gitDir }).catch(() => '');
+                    pr.baseSha = mergeBase.trim() || null;
+                }
+            });
         }
 
-        const prs = await response.json() as any[];
-        const formattedPRs = prs.map((pr: any) => ({
-            id: pr.id,
-            title: pr.title,
-            state: pr.merged_at ? 'merged' : pr.state,
-            headSha: pr.head.sha,
-            baseSha: pr.base.sha
-        }));
+        const formattedPRs: PullRequest[] = remotePRs
+            .filter(pr => pr.baseSha)
+            .map(pr => ({
+                id: pr.id,
+                title: pr.title,
+                state: pr.state,
+                headSha: pr.headSha,
+                baseSha: pr.baseSha!
+            }));
 
         res.json(formattedPRs);
     } catch (error: any) {
@@ -720,49 +966,27 @@ app.post('/api/ai/summarize-commit', async (req: express.Request, res: express.R
         return res.status(400).json({ error: 'Missing required fields: repoUrl, commitHash, commitMessage' });
     }
 
-    let tempDir: string | null = null;
+    const location = parseRequestedRepoUrl(req, repoUrl);
+    if (!location) {
+        return res.status(400).json({ error: 'Invalid repository URL' });
+    }
 
-    try {
-        // Create temporary directory for git clone
-        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-galaxy-ai-'));
+    if (typeof commitHash !== 'string' || !/^[0-9a-f]{4,40}$/i.test(commitHash)) {
+        return res.status(400).json({ error: 'Invalid commit hash' });
+    }
 
-        // Clone the repository
-        const cloneUrl = repoUrl.endsWith('.git') ? repoUrl : `${repoUrl}.git`;
-        let cloneCommand = `git clone --bare ${cloneUrl} .`;
-        const env = { ...process.env };
-        
-        const accessToken = req.session?.access_token;
-        if (accessToken) {
-            const urlWithAuth = cloneUrl.replace('https://', `https://${accessToken}@`);
-            cloneCommand = `git clone --bare ${urlWithAuth} .`;
+    try {
+        const credentials = getSessionCredentials(req, location);
+        if (!(await canAccessRepo(location, credentials, sessionLogin(req)))) {
+            return res.status(404).json({ error: 'Repository not found' });
         }
 
-        await new Promise<void>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            exec(cloneCommand, { cwd: tempDir, env, timeout: 60000 }, (error: any, stdout: any, stderr: any) => {
-                if (error) {
-                    reject(new Error(`Failed to clone repository: ${stderr || error.message}`));
-                } else {
-                    resolve();
-                }
-            });
-        });
-
         // Get the full diff of the commit
-        const diffOutput = await new Promise<string>((resolve, reject) => {
-            if (!tempDir) {
-                return reject(new Error('Failed to create temporary directory'));
-            }
-            exec(`git show "${commitHash}"`, { cwd: tempDir, timeout: 30000 }, (error: any, stdout: string, stderr: any) => {
-                if (error) {
-                    reject(new Error(`Failed to get commit diff: ${stderr || error.message}`));
-                } else {
-                    resolve(stdout);
-                }
-            });
-        });
+        const diffOutput = await withMirror(location.url, { credentials, requireCommit: commitHash }, gitDir =>
+            runGit(['show', commitHash], { cwd: gitDir, timeout: 30000 }).catch((error: Error) => {
+                throw new Error(`Failed to get commit diff: ${error.message}`);
+            })
+        );
 
         // Create prompt for Gemini
         const prompt = `Analyze this Git commit and provide a clear, high-level summary of the changes.
@@ -794,15 +1018,6 @@ Format your response in a clear, professional manner suitable for a code review
             error: 'Failed to generate AI summary', 
             message: error.message || 'Unknown error' 
         });
-    } finally {
-        // Clean up temporary directory
-        if (tempDir) {
-            try {
-                await fs.rm(tempDir, { recursive: true, force: true });
-            } catch (cleanupError) {
-                console.error('Failed to clean up temp directory:', cleanupError);
-            }
-        }
     }
 });
 
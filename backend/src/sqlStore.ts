@@ -0,0 +1,256 @@
+import { runMigrations, type SqlConnection, type SqlDialect } from './migrations.js';
+import { writeAnalysis, appendAnalysis, readAnalysis } from './analysisRows.js';
+import type { MigrationReport, RepoStore } from './repoStore.js';
+import type { JobRecord, MirrorRecord } from './types.js';
+
+type Query = SqlConnection['query'];
+
+// Runs `fn` between BEGIN and COMMIT on a connection nothing else uses
+// meanwhile, rolling back when it throws. Nested transactions join the outer one.
+export async function runTransaction<T>(dialect: SqlDialect, query: Query, fn: (tx: SqlConnection) => Promise<T>, begin = 'BEGIN'): Promise<T> {
+    const tx: SqlConnection = { dialect, query, transaction: inner => inner(tx) };
+    await query(begin);
+    try {
+        const result = await fn(tx);
+        await query('COMMIT');
+        return result;
+    } catch (error) {
+        await query('ROLLBACK');
+        throw error;
+    }
+}
+
+// A connection for a driver with a single underlying connection: every
+// statement waits its turn, and a transaction keeps the connection until it
+// commits, so no other statement runs inside it or reads its partial writes
+export function serializedConnection(dialect: SqlDialect, query: Query): SqlConnection {
+    let queue: Promise<unknown> = Promise.resolve();
+    const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+    return {
+        dialect,
+        query: (sql, params) => enqueue(() => query(sql, params)),
+        transaction: fn => enqueue(() => runTransaction(dialect, query, fn))
+    };
+}
+
+const toMirrorRecord = (row: any): MirrorRecord => ({
+    url: row.url,
+    path: row.path,
+    sizeBytes: Number(row.size_bytes),
+    lastUsed: Number(row.last_used),
+    lastFetched: Number(row.last_fetched)
+});
+
+const toJobRecord = (row: any): JobRecord => ({
+    id: row.id,
+    kind: row.kind,
+    repoUrl: row.repo_url,
+    credentialId: row.credential_id ?? null,
+    status: row.status,
+    attempts: Number(row.attempts),
+    runAfter: Number(row.run_after),
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at)
+});
+
+// The queries shared by the SQLite and PostgreSQL drivers. `open` connects;
+// it is called before the first query, and again after it failed.
+export function createSqlStore(open: () => Promise<SqlConnection>): Omit<RepoStore, 'driver'> {
+    let opened: Promise<{ db: SqlConnection, report: MigrationReport }> | null = null;
+    const connect = () => {
+        if (!opened) {
+            opened = open().then(async db => ({ db, report: await runMigrations(db) }));
+            // A failed connection or migration is retried on the next call
+            opened.catch(() => { opened = null; });
+        }
+        return opened;
+    };
+    const ready = async () => (await connect()).db;
+
+    return {
+        async init() {
+            return (await connect()).report;
+        },
+
+        async getRepo(url, analyzedSince = 0) {
+            const db = await ready();
+            // One snapshot for all tables, so an analysis being stored meanwhile is seen whole or not at all
+            return db.transaction(async tx => {
+                const [repo] = await tx.query('SELECT analyzed_at, churn_collected FROM repos WHERE url = ?', [url]);
+                if (!repo || Number(repo.analyzed_at) < analyzedSince) {
+                    return null;
+                }
+                return readAnalysis(tx, url, Boolean(Number(repo.churn_collected)));
+            }, { readOnly: true });
+        },
+
+        async storeRepo(url, data, access) {
+            const db = await ready();
+            const now = Date.now();
+            await db.transaction(async tx => {
+                await writeAnalysis(tx, url, data, { analyzedAt: now, createdAt: now });
+                await tx.query('UPDATE repos SET visibility = ?, owner = ? WHERE url = ?', [access.visibility, access.owner, url]);
+            });
+        },
+
+        async updateRepo(url, delta, access) {
+            const db = await ready();
+            await db.transaction(async tx => {
+                const [repo] = await tx.query('SELECT url FROM repos WHERE url = ?', [url]);
+                if (repo) {
+                    await appendAnalysis(tx, url, delta, Date.now());
+                    await tx.query('UPDATE repos SET visibility = ?, owner = ? WHERE url = ?', [access.visibility, access.owner, url]);
+                }
+            });
+        },
+
+        async getRepoAccess(url) {
+            const db = await ready();
+            const [repo] = await db.query('SELECT visibility, owner FROM repos WHERE url = ?', [url]);
+            return repo ? { visibility: repo.visibility, owner: repo.owner ?? null } : null;
+        },
+
+        async grantRepoAccess(url, credentialId, expiresAt) {
+            const db = await ready();
+            await db.query(
+                `INSERT INTO repo_grants (repo_url, credential_id, expires_at) SELECT url, ?, ? FROM repos WHERE url = ?
+                 ON CONFLICT (repo_url, credential_id) DO UPDATE SET expires_at = excluded.expires_at`,
+                [credentialId, expiresAt, url]
+            );
+        },
+
+        async hasRepoGrant(url, credentialId, now) {
+            const db = await ready();
+            const rows = await db.query(
+                'SELECT 1 AS granted FROM repo_grants WHERE repo_url = ? AND credential_id = ? AND expires_at > ?',
+                [url, credentialId, now]
+            );
+            return rows.length > 0;
+        },
+
+        async getMirror(url) {
+            const db = await ready();
+            const [row] = await db.query('SELECT * FROM mirrors WHERE url = ?', [url]);
+            return row ? toMirrorRecord(row) : null;
+        },
+
+        async listMirrors() {
+            const db = await ready();
+            return (await db.query('SELECT * FROM mirrors ORDER BY last_used ASC')).map(toMirrorRecord);
+        },
+
+        async storeMirror(mirror) {
+            const db = await ready();
+            await db.query(
+                `INSERT INTO mirrors (url, path, size_bytes, last_used, last_fetched) VALUES (?, ?, ?, ?, ?)
+                 ON CONFLICT (url) DO UPDATE SET path = excluded.path, size_bytes = excluded.size_bytes,
+                     last_used = excluded.last_used, last_fetched = excluded.last_fetched`,
+                [mirror.url, mirror.path, mirror.sizeBytes, mirror.lastUsed, mirror.lastFetched]
+            );
+        },
+
+        async deleteMirror(url) {
+            const db = await ready();
+            await db.query('DELETE FROM mirrors WHERE url = ?', [url]);
+        },
+
+        async insertJob(id, kind, repoUrl, credentialId) {
+            const db = await ready();
+            const now = Date.now();
+            await db.query(
+                `INSERT INTO jobs (id, kind, repo_url, credential_id, status, attempts, run_after, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+                [id, kind, repoUrl, credentialId, now, now, now]
+            );
+        },
+
+        async getJob(id) {
+            const db = await ready();
+            const [row] = await db.query('SELECT * FROM jobs WHERE id = ?', [id]);
+            return row ? toJobRecord(row) : null;
+        },
+
+        async findActiveJob(kind, repoUrl, credentialId, includeRunning) {
+            const db = await ready();
+            const statuses = includeRunning ? `('pending', 'processing')` : `('pending')`;
+            // IS NOT DISTINCT FROM, so anonymous jobs (NULL) match each other too
+            const sameCredentials = db.dialect === 'postgres' ? 'credential_id IS NOT DISTINCT FROM ?' : 'credential_id IS ?';
+            const [row] = await db.query(
+                `SELECT * FROM jobs WHERE kind = ? AND repo_url = ? AND ${sameCredentials} AND status IN ${statuses}
+                 ORDER BY created_at LIMIT 1`,
+                [kind, repoUrl, credentialId]
+            );
+            return row ? toJobRecord(row) : null;
+        },
+
+        async claimNextJob() {
+            const db = await ready();
+            const now = Date.now();
+            // SKIP LOCKED keeps several PostgreSQL-backed server instances from
+            // claiming the same job; SQLite serializes writers anyway
+            const lock = db.dialect === 'postgres' ? ' FOR UPDATE SKIP LOCKED' : '';
+            const [row] = await db.query(
+                `UPDATE jobs SET status = 'processing', attempts = attempts + 1, updated_at = ?
+                 WHERE id = (
+                     SELECT id FROM jobs WHERE status = 'pending' AND run_after <= ?
+                     ORDER BY created_at LIMIT 1${lock}
+                 )
+                 RETURNING *`,
+                [now, now]
+            );
+            return row ? toJobRecord(row) : null;
+        },
+
+        async finishJob(id, outcome) {
+            const db = await ready();
+            const result = outcome.status === 'complete' ? JSON.stringify(outcome.result) : null;
+            const error = outcome.status === 'failed' ? outcome.error : null;
+            await db.query(
+                'UPDATE jobs SET status = ?, result = ?, error = ?, updated_at = ? WHERE id = ?',
+                [outcome.status, result, error, Date.now(), id]
+            );
+        },
+
+        async retryJob(id, runAfter, error) {
+            const db = await ready();
+            await db.query(
+                `UPDATE jobs SET status = 'pending', run_after = ?, error = ?, updated_at = ? WHERE id = ?`,
+                [runAfter, error, Date.now(), id]
+            );
+        },
+
+        async cancelPendingJob(id) {
+            const db = await ready();
+            const rows = await db.query(
+                `UPDATE jobs SET status = 'cancelled', updated_at = ? WHERE id = ? AND status = 'pending' RETURNING id`,
+                [Date.now(), id]
+            );
+            return rows.length > 0;
+        },
+
+        async recoverInterruptedJobs(maxAttempts) {
+            const db = await ready();
+            const now = Date.now();
+            await db.query(
+                `UPDATE jobs SET status = 'failed', error = ?, updated_at = ? WHERE status = 'processing' AND attempts >= ?`,
+                ['Interrupted by a server restart', now, maxAttempts]
+            );
+            const resumed = await db.query(
+                `UPDATE jobs SET status = 'pending', run_after = ?, updated_at = ? WHERE status = 'processing' RETURNING id`,
+                [now, now]
+            );
+            return resumed.length;
+        },
+
+        async deleteFinishedJobs(cutoff) {
+            const db = await ready();
+            await db.query(`DELETE FROM jobs WHERE status IN ('complete', 'failed', 'cancelled') AND updated_at < ?`, [cutoff]);
+        }
+    };
+}
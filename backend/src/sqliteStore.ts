@@ -0,0 +1,35 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { createSqlStore, serializedConnection } from './sqlStore.js';
+import type { RepoStore } from './repoStore.js';
+
+// SQLite implementation (for local development)
+export function createSqliteStore(dbPath: string): RepoStore {
+    let sqliteDb: any = null;
+
+    const query = async (sql: string, params: unknown[] = []) => {
+        const statement = sqliteDb.prepare(sql);
+        if (statement.reader) {
+            return statement.all(...params);
+        }
+        statement.run(...params);
+        return [];
+    };
+
+    const connection = serializedConnection('sqlite', query);
+
+    return {
+        driver: 'sqlite',
+        ...createSqlStore(async () => {
+            if (!sqliteDb) {
+                const Database = (await import('better-sqlite3')).default;
+                fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+                sqliteDb = new Database(dbPath);
+                // Off by default in SQLite; the normalized tables cascade deletes to their rows
+                sqliteDb.pragma('foreign_keys = ON');
+            }
+            return connection;
+        })
+    };
+}
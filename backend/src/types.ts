@@ -1,11 +1,31 @@
 export interface CommitNode {
   pos: [number, number, number];
-  parent: string | null;
-  message: string;
+  parent: string | null; // first parent, kept for single-parent consumers
+  parents: string[]; // all parents, in git order
+  message: string; // subject line
+  body: string; // message body without the subject
   author: string;
+  authorEmail: string;
+  authorTime: number; // unix seconds
+  committer: string;
+  committerEmail: string;
+  commitTime: number; // unix seconds
   branchColor?: string;
 }
 
+// Commit metadata as read from `git log`, before layout
+export interface RawCommit {
+  parentHashes: string[];
+  message: string;
+  body: string;
+  author: string;
+  authorEmail: string;
+  authorTime: number;
+  committer: string;
+  committerEmail: string;
+  commitTime: number;
+}
+
 export interface RepoData {
   [commitHash: string]: CommitNode;
 }
@@ -34,6 +54,62 @@ export interface Author {
   commitCount: number;
 }
 
+export type RefType = 'branch' | 'remote' | 'tag';
+
+export interface GitRef {
+  name: string; // short name, e.g. 'main', 'origin/feature-x', 'v1.0.0'
+  type: RefType;
+  target: string; // commit hash the ref points to (peeled for annotated tags)
+  annotated?: boolean;
+  message?: string; // annotated tag message
+  isHead?: boolean; // branch checked out as HEAD (the default branch of a clone)
+}
+
+export type FileChangeStatus = 'added' | 'modified' | 'renamed' | 'deleted' | 'typechange';
+
+// Why a file's patch was left out of a commit diff
+export type CollapseReason = 'binary' | 'generated' | 'large';
+
+export interface DiffHunk {
+  header: string; // the full `@@ -a,b +c,d @@ context` line
+  oldStart: number;
+  newStart: number;
+  lines: string[]; // unified diff lines, each starting with ' ', '+', '-' or '\'
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath: string | null; // previous path of a renamed file
+  status: FileChangeStatus;
+  insertions: number;
+  deletions: number;
+  binary: boolean;
+  collapsed: CollapseReason | null;
+  hunks: DiffHunk[]; // empty when collapsed
+}
+
+// Per-file changes of a commit against its first parent (or the empty tree for root commits)
+export interface CommitDiff {
+  hash: string;
+  base: string | null; // first parent, null for root commits
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  files: FileDiff[];
+}
+
+// A file or directory in the repository tree
+export interface PathEntry {
+  path: string;
+  type: 'file' | 'directory';
+}
+
+// Commits that touched a path, newest first
+export interface PathHistory {
+  path: string;
+  hashes: string[];
+}
+
 export interface PullRequest {
   id: number;
   title: string;
@@ -42,3 +118,86 @@ export interface PullRequest {
   baseSha: string;
 }
 
+// Relation between two commits: `ahead` counts commits reachable from head
+// but not base, `behind` the reverse. `diff` compares the two trees directly.
+export interface CommitComparison {
+  base: string;
+  head: string;
+  mergeBase: string | null; // null for unrelated histories
+  ahead: number;
+  behind: number;
+  diff: DiffStat;
+}
+
+// How often a file changed over the analyzed history. Files are listed under
+// their current path, including changes made before they were renamed.
+export interface FileChurn {
+  path: string;
+  commits: number;
+  insertions: number;
+  deletions: number;
+  authors: string[]; // distinct author names
+}
+
+// Result of analyzing a repository, as cached and returned to the client
+export interface AnalysisResult {
+  repoData: RepoData;
+  authors: Author[];
+  refs: GitRef[];
+  churn?: FileChurn[]; // missing in analyses cached before churn was collected
+}
+
+// Commits added by an incremental re-analysis, with the refreshed author
+// counts and refs of the whole repository
+export interface AnalysisDelta {
+  added: RepoData;
+  authors: Author[];
+  refs: GitRef[];
+  churn?: FileChurn[]; // churn of the whole repository, including the new commits
+}
+
+// Metadata of a bare clone kept in the on-disk mirror cache
+export interface MirrorRecord {
+  url: string; // normalized repository URL the mirror was cloned from
+  path: string;
+  sizeBytes: number;
+  lastUsed: number; // ms timestamps
+  lastFetched: number;
+}
+
+export type RepoVisibility = 'public' | 'private';
+
+// Who may be served a cached analysis. Private entries are only served to
+// requesters whose access was verified recently (see repoAccess.ts).
+export interface RepoAccess {
+  visibility: RepoVisibility;
+  owner: string | null; // id of the credentials the analysis was fetched with
+}
+
+export type JobKind = 'analyze' | 'refresh';
+
+export type JobStatus = 'pending' | 'processing' | 'complete' | 'failed' | 'cancelled';
+
+// Steps of a background job, in the order they run. A job downloads with
+// `cloning` the first time a repository is seen and `fetching` afterwards.
+export type JobStage = 'queued' | 'cloning' | 'fetching' | 'reading' | 'layout' | 'storing';
+
+export interface JobProgress {
+  stage: JobStage;
+  percent: number | null; // progress within the stage, when git reports one
+}
+
+// Background job as persisted in the jobs table
+export interface JobRecord {
+  id: string;
+  kind: JobKind;
+  repoUrl: string;
+  credentialId: string | null; // id of the credentials it was requested with; only the same ones join it
+  status: JobStatus;
+  attempts: number; // runs started so far, including the current one
+  runAfter: number; // ms timestamp before which a pending job is not picked up (retry backoff)
+  result?: any;
+  error?: string;
+  createdAt: number; // ms timestamps
+  updatedAt: number;
+}
@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+
+// Checks the `X-Hub-Signature-256` header GitHub sends with every delivery:
+// an HMAC-SHA256 of the raw request body, keyed with the webhook secret
+export function verifyWebhookSignature(payload: Buffer, signature: string | undefined, secret: string): boolean {
+    if (!signature || !signature.startsWith('sha256=')) {
+        return false;
+    }
+    const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`);
+    const received = Buffer.from(signature);
+    // timingSafeEqual throws on length mismatch
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// Clone URL of the repository a push event is about, or null for payloads
+// without one. Pushes that only delete a ref still count: refs are part of the galaxy.
+export function pushedRepoUrl(payload: any): string | null {
+    const repository = payload?.repository;
+    if (!repository || typeof repository !== 'object') {
+        return null;
+    }
+    const url = repository.clone_url || repository.html_url;
+    return typeof url === 'string' ? url : null;
+}
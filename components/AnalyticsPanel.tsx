@@ -1,20 +1,21 @@
 import React from 'react';
-import type { Author } from '../types';
+import type { Author, TimeRange } from '../types';
+import TimelineRangeSlider from './TimelineRangeSlider';
 
 interface AnalyticsPanelProps {
   authors: Author[];
-  commitCount: number;
+  commitTimes: number[];
   filteredAuthor: string | null;
-  timelineCommitLimit: number | null;
+  timelineRange: TimeRange | null;
   onAuthorFilterChange: (author: string | null) => void;
-  onTimelineChange: (limit: number | null) => void;
+  onTimelineChange: (range: TimeRange | null) => void;
 }
 
 const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
   authors,
-  commitCount,
+  commitTimes,
   filteredAuthor,
-  timelineCommitLimit,
+  timelineRange,
   onAuthorFilterChange,
   onTimelineChange
 }) => {
@@ -39,33 +40,17 @@ const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
         </select>
       </div>
       
-      {/* Timeline Scrubber */}
+      {/* Timeline Range */}
       <div className="mb-3">
-        <label className="block text-xs text-white/70 mb-2">
-          Timeline: {timelineCommitLimit !== null ? `${timelineCommitLimit} commits` : 'All commits'}
-        </label>
-        <input
-          type="range"
-          min="0"
-          max={commitCount}
-          value={timelineCommitLimit !== null ? timelineCommitLimit : commitCount}
-          onChange={(e) => {
-            const value = parseInt(e.target.value, 10);
-            onTimelineChange(value === commitCount ? null : value);
-          }}
-          className="w-full h-2 bg-black/50 rounded-lg appearance-none cursor-pointer accent-cyan-400"
-        />
-        <div className="flex justify-between text-xs text-white/50 mt-1">
-          <span>Start</span>
-          <span>{commitCount}</span>
-        </div>
+        <label className="block text-xs text-white/70 mb-2">Timeline</label>
+        <TimelineRangeSlider commitTimes={commitTimes} range={timelineRange} onRangeChange={onTimelineChange} />
       </div>
       
       {/* Stats */}
       <div className="pt-3 border-t border-white/10">
         <div className="text-xs text-white/60">
           <p>Total Authors: {authors.length}</p>
-          <p>Total Commits: {commitCount}</p>
+          <p>Total Commits: {commitTimes.length}</p>
         </div>
       </div>
     </div>
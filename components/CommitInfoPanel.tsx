@@ -1,34 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import type { CommitNode, DiffStat } from '../types';
+import type { CommitNode, CommitDiff } from '../types';
 import { API_BASE_URL } from '../config';
+import DiffViewer from './DiffViewer';
+import type { LineageMode } from '../lib/graph/commitGraph';
 
 interface CommitInfoPanelProps {
   commit: { hash: string, node: CommitNode } | null;
   onClose: () => void;
   repoUrl?: string;
+  // File the galaxy was opened from when it was loaded without the backend
+  offlineSource?: string | null;
+  lineageMode?: LineageMode;
+  // Number of commits highlighted by the lineage mode, the selected one included
+  lineageSize?: number;
+  onLineageModeChange?: (mode: LineageMode) => void;
 }
 
-const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repoUrl }) => {
-  const [diffStat, setDiffStat] = useState<DiffStat | null>(null);
+const lineageLabels: Record<LineageMode, string> = {
+  none: 'Off',
+  ancestors: 'Ancestors',
+  descendants: 'Descendants',
+};
+
+const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repoUrl, offlineSource, lineageMode = 'none', lineageSize, onLineageModeChange }) => {
+  const [diff, setDiff] = useState<CommitDiff | null>(null);
   const [loadingDiff, setLoadingDiff] = useState(false);
   const [summary, setSummary] = useState<string | null>(null);
   const [isSummarizing, setIsSummarizing] = useState(false);
   const [summaryError, setSummaryError] = useState<string | null>(null);
 
   useEffect(() => {
+    setDiff(null);
     if (commit && repoUrl) {
+      // Ignore a slow response for a commit that is no longer selected
+      let isCurrent = true;
       setLoadingDiff(true);
-      fetch(`${API_BASE_URL}/api/repo/commit/${commit.hash}/diff?repoUrl=${encodeURIComponent(repoUrl)}`)
-        .then(res => res.json())
+      fetch(`${API_BASE_URL}/api/repo/commit/${commit.hash}/files?repoUrl=${encodeURIComponent(repoUrl)}`, {
+        credentials: 'include'
+      })
+        .then(res => {
+          if (!res.ok) throw new Error(`Server returned ${res.status}`);
+          return res.json();
+        })
         .then(data => {
-          setDiffStat(data);
+          if (!isCurrent) return;
+          setDiff(data);
           setLoadingDiff(false);
         })
         .catch(() => {
-          setLoadingDiff(false);
+          if (isCurrent) setLoadingDiff(false);
         });
-    } else {
-      setDiffStat(null);
+      return () => {
+        isCurrent = false;
+      };
     }
   }, [commit, repoUrl]);
 
@@ -82,7 +106,7 @@ const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repo
   }
 
   return (
-    <div className="absolute top-24 sm:top-28 md:top-32 left-3 right-3 sm:left-auto sm:right-4 sm:w-72 md:w-80 lg:w-96 max-w-[calc(100vw-1.5rem)] sm:max-w-none bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 sm:p-4 text-white font-mono shadow-lg shadow-cyan-500/10 transition-opacity duration-300 animate-fade-in z-60">
+    <div className="absolute top-24 sm:top-28 md:top-32 left-3 right-3 sm:left-auto sm:right-4 sm:w-72 md:w-80 lg:w-96 max-w-[calc(100vw-1.5rem)] sm:max-w-none max-h-[calc(100vh-8rem)] overflow-y-auto bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 sm:p-4 text-white font-mono shadow-lg shadow-cyan-500/10 transition-opacity duration-300 animate-fade-in z-60">
       <div className="flex justify-between items-start gap-2">
         <div className="flex-1 min-w-0">
           <h2 className="text-xs sm:text-sm text-cyan-300/80 uppercase tracking-widest">Commit Details</h2>
@@ -104,6 +128,15 @@ const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repo
         <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
           <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider mb-1">Author</p>
           <p className="text-xs sm:text-sm text-cyan-300/90">{commit.node.author}</p>
+          {commit.node.authorEmail && (
+            <p className="text-xs text-white/50 break-all">{commit.node.authorEmail}</p>
+          )}
+          {commit.node.authorTime > 0 && (
+            <p className="text-xs text-white/50 mt-1">{new Date(commit.node.authorTime * 1000).toLocaleString()}</p>
+          )}
+          {commit.node.committer && commit.node.committer !== commit.node.author && (
+            <p className="text-xs text-white/50 mt-1">Committed by {commit.node.committer}</p>
+          )}
         </div>
       )}
       
@@ -111,36 +144,84 @@ const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repo
       <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
         <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider mb-1">Message</p>
         <p className="text-xs sm:text-sm text-white/90 break-words">{commit.node.message}</p>
+        {commit.node.body && (
+          <p className="mt-2 text-xs text-white/60 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">{commit.node.body}</p>
+        )}
+        {commit.node.parents && commit.node.parents.length > 1 && (
+          <p className="mt-2 text-xs text-white/50">Merge of {commit.node.parents.map(p => p.substring(0, 7)).join(' + ')}</p>
+        )}
       </div>
+
+      {/* Lineage: which history this commit builds on, or which branches contain it */}
+      {onLineageModeChange && (
+        <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
+          <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider mb-2">Highlight Lineage</p>
+          <div className="flex text-xs border border-white/20 rounded overflow-hidden">
+            {(Object.keys(lineageLabels) as LineageMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onLineageModeChange(mode)}
+                className={`flex-1 px-2 py-0.5 transition-colors ${lineageMode === mode ? 'bg-cyan-500/80 text-black' : 'text-white/60 hover:text-white'}`}
+              >
+                {lineageLabels[mode]}
+              </button>
+            ))}
+          </div>
+          {lineageMode !== 'none' && lineageSize !== undefined && (
+            <p className="mt-1 text-xs text-white/50">
+              {lineageSize - 1} {lineageMode === 'ancestors' ? 'ancestor' : 'descendant'}{lineageSize - 1 === 1 ? '' : 's'}
+            </p>
+          )}
+        </div>
+      )}
       
       {/* Diff Statistics */}
-      {diffStat && (
+      {diff && (
         <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
           <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider mb-2">Changes</p>
           <div className="flex flex-wrap gap-3 sm:gap-4">
             <div className="flex items-center gap-1.5">
-              <span className="text-xs sm:text-sm text-green-400">{diffStat.filesChanged}</span>
+              <span className="text-xs sm:text-sm text-green-400">{diff.filesChanged}</span>
               <span className="text-xs text-white/60">files</span>
             </div>
             <div className="flex items-center gap-1.5">
-              <span className="text-xs sm:text-sm text-green-400">+{diffStat.insertions}</span>
+              <span className="text-xs sm:text-sm text-green-400">+{diff.insertions}</span>
               <span className="text-xs text-white/60">insertions</span>
             </div>
             <div className="flex items-center gap-1.5">
-              <span className="text-xs sm:text-sm text-red-400">-{diffStat.deletions}</span>
+              <span className="text-xs sm:text-sm text-red-400">-{diff.deletions}</span>
               <span className="text-xs text-white/60">deletions</span>
             </div>
           </div>
         </div>
       )}
+
+      {/* Changed files */}
+      {diff && diff.files.length > 0 && (
+        <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
+          <DiffViewer key={diff.hash} diff={diff} />
+        </div>
+      )}
       
       {loadingDiff && (
         <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
-          <p className="text-xs text-white/50">Loading diff statistics...</p>
+          <p className="text-xs text-white/50">Loading changes...</p>
+        </div>
+      )}
+
+      {/* Diffs and summaries are computed by the backend from its clone of the repository */}
+      {offlineSource && (
+        <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
+          <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider mb-1">Offline</p>
+          <p className="text-xs text-white/50 break-words">
+            Opened from {offlineSource}. Diff statistics and AI summaries need the backend and
+            the repository itself, so they are not available for exported galaxies.
+          </p>
         </div>
       )}
 
       {/* AI Summary Section */}
+      {!offlineSource && (
       <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-white/10">
         <div className="flex items-center justify-between mb-2">
           <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider">AI Summary</p>
@@ -172,6 +253,7 @@ const CommitInfoPanel: React.FC<CommitInfoPanelProps> = ({ commit, onClose, repo
           </div>
         )}
       </div>
+      )}
     </div>
   );
 };
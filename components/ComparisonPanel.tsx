@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import type { CommitNode, CommitComparison } from '../types';
+import { API_BASE_URL } from '../config';
+
+interface ComparisonPanelProps {
+  base: { hash: string, node: CommitNode };
+  head: { hash: string, node: CommitNode };
+  repoUrl?: string;
+  onComparisonLoaded: (comparison: CommitComparison | null) => void;
+  onCommitJump: (hash: string) => void;
+  onSwap: () => void;
+  onClose: () => void;
+}
+
+const CommitLabel: React.FC<{ label: string, commit: { hash: string, node: CommitNode }, className: string }> = ({ label, commit, className }) => (
+  <div className="min-w-0">
+    <p className="text-xs text-white/50 uppercase tracking-wider">{label}</p>
+    <p className={`text-xs font-mono ${className}`}>{commit.hash.substring(0, 10)}</p>
+    <p className="text-xs text-white/80 truncate" title={commit.node.message}>{commit.node.message}</p>
+  </div>
+);
+
+// "What's in head but not in base": merge base, ahead/behind and the diff
+// between two commits picked with click and shift-click
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ base, head, repoUrl, onComparisonLoaded, onCommitJump, onSwap, onClose }) => {
+  const [comparison, setComparison] = useState<CommitComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setComparison(null);
+    setError(null);
+    onComparisonLoaded(null);
+    if (!repoUrl) return;
+
+    // Ignore a slow response for a pair that is no longer compared
+    let isCurrent = true;
+    setIsLoading(true);
+    fetch(`${API_BASE_URL}/api/repo/compare?repoUrl=${encodeURIComponent(repoUrl)}&base=${base.hash}&head=${head.hash}`, {
+      credentials: 'include'
+    })
+      .then(async res => {
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          throw new Error(errorData.error || `Server returned ${res.status}`);
+        }
+        return res.json();
+      })
+      .then((data: CommitComparison) => {
+        if (!isCurrent) return;
+        setComparison(data);
+        onComparisonLoaded(data);
+      })
+      .catch(err => {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Failed to compare commits');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [base.hash, head.hash, repoUrl, onComparisonLoaded]);
+
+  return (
+    <div className="absolute top-24 sm:top-28 md:top-32 left-3 right-3 sm:left-auto sm:right-[19.5rem] md:right-[21.5rem] lg:right-[25.5rem] sm:w-64 md:w-72 bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 sm:p-4 text-white font-mono shadow-lg shadow-cyan-500/10 animate-fade-in z-50">
+      <div className="flex justify-between items-start gap-2">
+        <h2 className="text-xs sm:text-sm text-cyan-300/80 uppercase tracking-widest">Compare</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onSwap}
+            className="text-xs text-white/50 hover:text-white transition-colors"
+            title="Swap base and head"
+          >
+            ⇄
+          </button>
+          <button
+            onClick={onClose}
+            className="text-white/50 hover:text-white transition-colors text-xl leading-none"
+            aria-label="Close comparison"
+          >
+            &times;
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-2">
+        <CommitLabel label="Base" commit={base} className="text-orange-300" />
+        <CommitLabel label="Head" commit={head} className="text-fuchsia-300" />
+      </div>
+
+      <div className="mt-3 pt-3 border-t border-white/10 text-xs">
+        {!repoUrl ? (
+          <p className="text-white/50">Comparing commits needs the backend; this galaxy was opened from a file.</p>
+        ) : isLoading ? (
+          <p className="text-white/50">Comparing...</p>
+        ) : error ? (
+          <p className="text-red-400">{error}</p>
+        ) : comparison && (
+          <div className="space-y-2">
+            <p className="text-white/80">
+              Head is <span className="text-green-400">{comparison.ahead} ahead</span> and{' '}
+              <span className="text-red-400">{comparison.behind} behind</span> base
+            </p>
+            <div>
+              <p className="text-white/50 uppercase tracking-wider">Merge base</p>
+              {comparison.mergeBase ? (
+                <button
+                  onClick={() => onCommitJump(comparison.mergeBase!)}
+                  className="text-cyan-300 hover:text-cyan-200 underline font-mono"
+                >
+                  {comparison.mergeBase.substring(0, 10)}
+                </button>
+              ) : (
+                <p className="text-white/60">None: the histories are unrelated</p>
+              )}
+            </div>
+            <p className="text-white/80">
+              {comparison.diff.filesChanged} file{comparison.diff.filesChanged === 1 ? '' : 's'} changed,{' '}
+              <span className="text-green-400">+{comparison.diff.insertions}</span>{' '}
+              <span className="text-red-400">-{comparison.diff.deletions}</span>
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
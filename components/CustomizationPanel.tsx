@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Settings, Theme } from '../types';
+import type { Settings, Theme, LayoutMode } from '../types';
 
 interface CustomizationPanelProps {
   settings: Settings;
@@ -26,6 +26,18 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
     onSettingsChange({ ...settings, autoRotateSpeed: value });
   };
 
+  const handleShowMergeEdgesChange = (value: boolean) => {
+    onSettingsChange({ ...settings, showMergeEdges: value });
+  };
+
+  const handleLayoutModeChange = (layoutMode: LayoutMode) => {
+    onSettingsChange({ ...settings, layoutMode });
+  };
+
+  const handleCompressIdleGapsChange = (value: boolean) => {
+    onSettingsChange({ ...settings, compressIdleGaps: value });
+  };
+
   if (!isOpen) {
     return (
       <button
@@ -69,6 +81,31 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
         </select>
       </div>
 
+      {/* Layout Mode */}
+      <div className="mb-4">
+        <label className="block text-xs text-white/70 uppercase tracking-wider mb-2 font-mono">
+          Layout
+        </label>
+        <select
+          value={settings.layoutMode}
+          onChange={(e) => handleLayoutModeChange(e.target.value as LayoutMode)}
+          className="w-full px-2 py-1.5 bg-black/50 border border-white/20 rounded text-white/90 font-mono text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400"
+        >
+          <option value="topological">Topological (history depth)</option>
+          <option value="chronological">Chronological (commit time)</option>
+        </select>
+        <label className={`flex items-center gap-2 mt-2 text-xs font-mono ${settings.layoutMode === 'chronological' ? 'text-white/70 cursor-pointer' : 'text-white/30'}`}>
+          <input
+            type="checkbox"
+            checked={settings.compressIdleGaps}
+            disabled={settings.layoutMode !== 'chronological'}
+            onChange={(e) => handleCompressIdleGapsChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Compress idle gaps
+        </label>
+      </div>
+
       {/* Bloom Strength */}
       <div className="mb-4">
         <label className="block text-xs text-white/70 uppercase tracking-wider mb-2 font-mono">
@@ -108,6 +145,19 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
           <span>2.0</span>
         </div>
       </div>
+
+      {/* Merge Edges */}
+      <div className="mb-4">
+        <label className="flex items-center gap-2 text-xs text-white/70 uppercase tracking-wider font-mono cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.showMergeEdges}
+            onChange={(e) => handleShowMergeEdgesChange(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Show Merge Edges
+        </label>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import type { CommitDiff, DiffHunk, FileDiff } from '../types';
+
+interface DiffViewerProps {
+  diff: CommitDiff;
+}
+
+type DiffMode = 'inline' | 'split';
+
+interface NumberedLine {
+  kind: 'context' | 'add' | 'delete' | 'note';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+const statusBadges: Record<FileDiff['status'], { label: string, className: string }> = {
+  added: { label: 'A', className: 'text-green-400 border-green-400/40' },
+  modified: { label: 'M', className: 'text-yellow-300 border-yellow-300/40' },
+  renamed: { label: 'R', className: 'text-cyan-300 border-cyan-300/40' },
+  deleted: { label: 'D', className: 'text-red-400 border-red-400/40' },
+  typechange: { label: 'T', className: 'text-purple-300 border-purple-300/40' },
+};
+
+const collapseReasons: Record<NonNullable<FileDiff['collapsed']>, string> = {
+  binary: 'Binary file not shown',
+  generated: 'Generated file not shown',
+  large: 'Diff too large to display',
+};
+
+const lineStyles: Record<NumberedLine['kind'], string> = {
+  context: 'text-white/70',
+  add: 'bg-green-500/15 text-green-300',
+  delete: 'bg-red-500/15 text-red-300',
+  note: 'text-white/40 italic',
+};
+
+// Old and new line numbers for every line of a hunk
+const numberHunk = (hunk: DiffHunk): NumberedLine[] => {
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  return hunk.lines.map(line => {
+    const text = line.substring(1);
+    switch (line[0]) {
+      case '+':
+        return { kind: 'add', text, oldLine: null, newLine: newLine++ };
+      case '-':
+        return { kind: 'delete', text, oldLine: oldLine++, newLine: null };
+      case '\\':
+        return { kind: 'note', text: line, oldLine: null, newLine: null };
+      default:
+        return { kind: 'context', text, oldLine: oldLine++, newLine: newLine++ };
+    }
+  });
+};
+
+// Pairs each run of deletions with the additions that follow it, so changed
+// lines sit next to each other in the split view
+const pairLines = (lines: NumberedLine[]): [NumberedLine | null, NumberedLine | null][] => {
+  const rows: [NumberedLine | null, NumberedLine | null][] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.kind === 'context' || line.kind === 'note') {
+      rows.push([line, line]);
+      i++;
+      continue;
+    }
+    const deletions: NumberedLine[] = [];
+    const additions: NumberedLine[] = [];
+    while (i < lines.length && lines[i].kind === 'delete') deletions.push(lines[i++]);
+    while (i < lines.length && lines[i].kind === 'add') additions.push(lines[i++]);
+    for (let j = 0; j < Math.max(deletions.length, additions.length); j++) {
+      rows.push([deletions[j] || null, additions[j] || null]);
+    }
+  }
+  return rows;
+};
+
+const LineNumber: React.FC<{ value: number | null }> = ({ value }) => (
+  <span className="inline-block w-8 pr-1 text-right text-white/30 select-none flex-shrink-0">{value ?? ''}</span>
+);
+
+const InlineHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <>
+    {numberHunk(hunk).map((line, index) => (
+      <div key={index} className={`flex whitespace-pre ${lineStyles[line.kind]}`}>
+        <LineNumber value={line.oldLine} />
+        <LineNumber value={line.newLine} />
+        <span className="pl-1">{line.kind === 'add' ? '+' : line.kind === 'delete' ? '-' : ' '}{line.text}</span>
+      </div>
+    ))}
+  </>
+);
+
+const SplitHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => (
+  <>
+    {pairLines(numberHunk(hunk)).map(([left, right], index) => (
+      <div key={index} className="grid grid-cols-2 whitespace-pre">
+        {[left, right].map((line, side) => (
+          <div key={side} className={`flex min-w-0 ${line ? lineStyles[line.kind] : 'bg-white/5'} ${side === 0 ? 'border-r border-white/10' : ''}`}>
+            <LineNumber value={line ? (side === 0 ? line.oldLine : line.newLine) : null} />
+            <span className="pl-1 overflow-hidden">{line?.text ?? ''}</span>
+          </div>
+        ))}
+      </div>
+    ))}
+  </>
+);
+
+// Expandable list of the files changed by a commit, with an inline or side-by-side patch view
+const DiffViewer: React.FC<DiffViewerProps> = ({ diff }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [mode, setMode] = useState<DiffMode>('inline');
+
+  const toggleFile = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs sm:text-sm text-white/70 uppercase tracking-wider">Files</p>
+        <div className="flex text-xs border border-white/20 rounded overflow-hidden">
+          {(['inline', 'split'] as DiffMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-2 py-0.5 capitalize transition-colors ${mode === option ? 'bg-cyan-500/80 text-black' : 'text-white/60 hover:text-white'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-64 sm:max-h-80 overflow-y-auto space-y-1">
+        {diff.files.map(file => {
+          const badge = statusBadges[file.status];
+          const isOpen = expanded.has(file.path);
+          return (
+            <div key={file.path} className="border border-white/10 rounded">
+              <button
+                onClick={() => toggleFile(file.path)}
+                className="w-full flex items-center gap-2 px-2 py-1 text-left hover:bg-white/5 transition-colors"
+                aria-expanded={isOpen}
+              >
+                <span className="text-white/40 text-xs w-2">{isOpen ? '▾' : '▸'}</span>
+                <span className={`text-[10px] border rounded px-1 ${badge.className}`}>{badge.label}</span>
+                <span className="flex-1 min-w-0 text-xs text-white/80 truncate" title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}>
+                  {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                </span>
+                {!file.binary && (
+                  <span className="text-[10px] flex-shrink-0">
+                    <span className="text-green-400">+{file.insertions}</span>{' '}
+                    <span className="text-red-400">-{file.deletions}</span>
+                  </span>
+                )}
+              </button>
+
+              {isOpen && (
+                <div className="border-t border-white/10 text-[10px] leading-4 overflow-x-auto">
+                  {file.collapsed ? (
+                    <p className="px-2 py-1 text-white/40 italic">{collapseReasons[file.collapsed]}</p>
+                  ) : file.hunks.length === 0 ? (
+                    <p className="px-2 py-1 text-white/40 italic">No content changes</p>
+                  ) : (
+                    <div className={mode === 'split' ? 'min-w-[36rem]' : 'min-w-max'}>
+                      {file.hunks.map((hunk, index) => (
+                        <div key={index}>
+                          <div className="px-2 bg-cyan-500/10 text-cyan-300/70 whitespace-pre">{hunk.header}</div>
+                          {mode === 'split' ? <SplitHunk hunk={hunk} /> : <InlineHunk hunk={hunk} />}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DiffViewer;
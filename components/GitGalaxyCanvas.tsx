@@ -1,43 +1,145 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
 import { initScene } from '../lib/three/sceneSetup';
-import { buildGraph } from '../lib/three/graphBuilder';
+import { buildGraph, appendCommits, createArrivalFlash, buildPathHighlights, type HighlightPath } from '../lib/three/graphBuilder';
 import { addAtmosphericEffects, animateAtmosphericEffects } from '../lib/three/atmosphericEffects';
 import { buildPullRequests } from '../lib/three/graphBuilder';
-import type { CommitNode, RepoData, Settings, PullRequest } from '../types';
+import { buildTimeGrid } from '../lib/three/timeGrid';
+import { buildRefLabels } from '../lib/three/refLabels';
+import { applyLayoutMode, commitTimeOf } from '../lib/layout/chronological';
+import type { CommitNode, RepoData, Settings, PullRequest, GitRef, TimeRange } from '../types';
 
 interface GitGalaxyCanvasProps {
   repoData: RepoData;
   onCommitSelect: (commit: { hash: string, node: CommitNode } | null) => void;
+  // Shift-click on a star; without it shift-click selects like a plain click
+  onCompareSelect?: (commit: { hash: string, node: CommitNode }) => void;
   selectedCommit: { hash:string, node: CommitNode } | null;
   filteredAuthor: string | null;
-  timelineCommitLimit: number | null;
+  // Commits to light up (e.g. those that touched a path); everything else is dimmed
+  highlightedCommits?: Set<string> | null;
+  // Ancestors or descendants of the selected commit (itself included); they and
+  // the edges between them glow, everything else is dimmed
+  lineage?: Set<string> | null;
+  // Commits outside this window are hidden; null shows the whole history
+  timelineRange: TimeRange | null;
   settings?: Settings;
   pullRequests?: PullRequest[];
+  refs?: GitRef[];
+  // Flies the camera to this commit; a new object with the same hash flies there again
+  focusRequest?: { hash: string } | null;
+  // Commit the camera keeps drifting towards, e.g. the newest one during playback
+  followCommit?: string | null;
+  // Chains of commits drawn over the graph, e.g. the path between two compared commits
+  highlightedPaths?: HighlightPath[];
 }
 
+// Stable default so the scene isn't rebuilt on every render when no refs are passed
+const NO_REFS: GitRef[] = [];
+const NO_PATHS: HighlightPath[] = [];
+
+// Duration of the grow-in animation for edges of newly arrived commits
+const EDGE_GROW_MS = 1200;
+// Duration of the expanding halo around newly arrived stars
+const ARRIVAL_FLASH_MS = 1500;
+// Lineage edges are pushed past full brightness so the bloom pass makes them glow
+const LINEAGE_COLOR = new THREE.Color(1.0, 0.75, 0.2);
+const LINEAGE_GLOW = 2.5;
+// Brightness left to edges outside the lineage
+const LINEAGE_DIM = 0.25;
+// Share of the remaining distance to the followed commit the camera covers each frame
+const FOLLOW_EASING = 0.05;
+
+type LayoutResult = ReturnType<typeof applyLayoutMode>;
+
+const isInRange = (node: CommitNode | undefined, range: TimeRange | null) => {
+  if (!node || !range) return !!node;
+  const time = commitTimeOf(node);
+  return time >= range.start && time <= range.end;
+};
+
+// True when `next` only adds commits to `prev` and leaves every existing star
+// where it was, so the running scene can be extended instead of rebuilt
+const isAppendOnly = (prev: LayoutResult, next: LayoutResult) => {
+  if (JSON.stringify(prev.timeAxis) !== JSON.stringify(next.timeAxis)) return false;
+  return Object.keys(prev.repoData).every(hash => {
+    const node = next.repoData[hash];
+    const pos = prev.repoData[hash].pos;
+    return node && node.pos[0] === pos[0] && node.pos[1] === pos[1] && node.pos[2] === pos[2];
+  });
+};
+
+const disposeObject = (root: THREE.Object3D) => {
+  root.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Sprite) {
+      object.geometry.dispose();
+      const material = object.material as THREE.Material & { map?: THREE.Texture | null };
+      material.map?.dispose();
+      material.dispose();
+    }
+  });
+};
+
 const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({ 
   repoData, 
   onCommitSelect, 
+  onCompareSelect,
   selectedCommit,
   filteredAuthor,
-  timelineCommitLimit,
+  highlightedCommits = null,
+  lineage = null,
+  timelineRange,
   settings = {
     theme: 'cyberpunk',
     bloomStrength: 1.7,
     autoRotateSpeed: 0.1,
+    showMergeEdges: true,
+    layoutMode: 'topological',
+    compressIdleGaps: false,
   },
-  pullRequests = []
+  pullRequests = [],
+  refs = NO_REFS,
+  focusRequest = null,
+  followCommit = null,
+  highlightedPaths = NO_PATHS
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Positions for the selected layout mode; switching modes only re-positions
+  // the already-analyzed commits, it never goes back to the backend
+  const layout = useMemo(
+    () => applyLayoutMode(repoData, settings.layoutMode, settings.compressIdleGaps),
+    [repoData, settings.layoutMode, settings.compressIdleGaps]
+  );
+  // Layout the scene was last fully built from. Refreshes that only add commits
+  // keep it unchanged so the new stars are appended to the running scene.
+  const sceneLayoutRef = useRef(layout);
+  // Each layout is compared once; later renders with the same layout reuse the answer
+  const checkedLayoutRef = useRef(layout);
+  if (checkedLayoutRef.current !== layout) {
+    checkedLayoutRef.current = layout;
+    if (!isAppendOnly(sceneLayoutRef.current, layout)) {
+      sceneLayoutRef.current = layout;
+    }
+  }
+  const sceneLayout = sceneLayoutRef.current;
+  // Latest props for event handlers that outlive a render
+  const latestRef = useRef({ repoData, layout, timelineRange, onCompareSelect });
+  latestRef.current = { repoData, layout, timelineRange, onCompareSelect };
   const stateRef = useRef({
     stars: null as THREE.Points | null,
     commitHashes: [] as string[],
+    builtHashes: new Set<string>(),
+    branchObjects: null as THREE.Group | null,
     particles: null as THREE.Points | null,
     camera: null as THREE.PerspectiveCamera | null,
     controls: null as any,
     composer: null as any,
     bloomPass: null as any,
+    mergeObjects: null as THREE.Group | null,
+    refGroup: null as THREE.Group | null,
+    refLabels: [] as THREE.Sprite[],
+    pathGroup: null as THREE.Group | null,
+    arrivals: [] as { edges: THREE.Mesh[], flashes: THREE.Sprite[], startTime: number }[],
     prGroup: null as THREE.Group | null,
     animatedPRMaterials: [] as THREE.MeshBasicMaterial[],
     isZooming: false,
@@ -45,6 +147,7 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     zoomStartPos: null as THREE.Vector3 | null,
     zoomStartTarget: null as THREE.Vector3 | null,
     zoomStartTime: 0,
+    followTarget: null as THREE.Vector3 | null,
     animationFrameId: null as number | null,
     scene: null as THREE.Scene | null,
     renderer: null as THREE.WebGLRenderer | null,
@@ -57,24 +160,36 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     const colors = stars.geometry.attributes.color;
     if (!colors) return;
     
+    const isFiltered = !!filteredAuthor || !!highlightedCommits || !!lineage;
+
     // Update colors
     for (let i = 0; i < commitHashes.length; i++) {
         const currentHash = commitHashes[i];
         const node = repoData[currentHash];
         if (!node) continue;
+        if (!isInRange(node, timelineRange)) {
+            // Outside the timeline window: black is invisible with additive blending
+            colors.setXYZ(i, 0.0, 0.0, 0.0);
+            continue;
+        }
+        const matchesFilter = (!filteredAuthor || node.author === filteredAuthor) &&
+            (!highlightedCommits || highlightedCommits.has(currentHash)) &&
+            (!lineage || lineage.has(currentHash));
         
         if (currentHash === selectedCommit?.hash) {
             // Highlight selected: yellow
             colors.setXYZ(i, 1.0, 1.0, 0.0);
-        } else if (filteredAuthor && node.author === filteredAuthor) {
-            // Filtered author: use branch color or cyan
-            if (node.branchColor) {
+        } else if (isFiltered && matchesFilter) {
+            // Matches the author/path/lineage filters: lineage gold, else branch color or cyan
+            if (lineage) {
+                colors.setXYZ(i, LINEAGE_COLOR.r, LINEAGE_COLOR.g, LINEAGE_COLOR.b);
+            } else if (node.branchColor) {
                 const color = new THREE.Color(node.branchColor);
                 colors.setXYZ(i, color.r, color.g, color.b);
             } else {
                 colors.setXYZ(i, 0.0, 1.0, 1.0); // Cyan
             }
-        } else if (filteredAuthor && node.author !== filteredAuthor) {
+        } else if (isFiltered) {
             // Dimmed: gray
             colors.setXYZ(i, 0.3, 0.3, 0.3);
         } else {
@@ -88,7 +203,55 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
         }
     }
     colors.needsUpdate = true;
-  }, [repoData, selectedCommit, filteredAuthor]);
+  }, [repoData, selectedCommit, filteredAuthor, highlightedCommits, lineage, timelineRange]);
+
+  // Hides the edges of commits outside the timeline window (an edge stays only
+  // when both of its ends are shown) and lights up the edges of the lineage
+  const updateEdgeStyles = useCallback(() => {
+    const { branchObjects, mergeObjects } = stateRef.current;
+    [branchObjects, mergeObjects].forEach(group => {
+      group?.children.forEach(object => {
+        const edge = object as THREE.Mesh;
+        const { hash, parent } = edge.userData;
+        edge.visible = isInRange(repoData[hash], timelineRange) && isInRange(repoData[parent], timelineRange);
+
+        // Remember the theme color the first time an edge is restyled
+        const material = edge.material as THREE.MeshBasicMaterial;
+        if (!edge.userData.baseColor) edge.userData.baseColor = material.color.clone();
+        const baseColor = edge.userData.baseColor as THREE.Color;
+        if (!lineage) {
+          material.color.copy(baseColor);
+        } else if (lineage.has(hash) && lineage.has(parent)) {
+          material.color.copy(LINEAGE_COLOR).multiplyScalar(LINEAGE_GLOW);
+        } else {
+          material.color.copy(baseColor).multiplyScalar(LINEAGE_DIM);
+        }
+      });
+    });
+  }, [repoData, timelineRange, lineage]);
+
+  // Labels of refs on commits outside the timeline window are hidden with them
+  const updateRefLabels = useCallback(() => {
+    stateRef.current.refGroup?.children.forEach(object => {
+      object.visible = isInRange(repoData[object.userData.hash], timelineRange);
+    });
+  }, [repoData, timelineRange]);
+
+  // Starts the camera flight towards a position; the animation itself runs in tick()
+  const zoomToPosition = useCallback((targetPos: THREE.Vector3) => {
+    const { controls, camera } = stateRef.current;
+    if (!controls || !camera) return;
+    
+    // Disable auto-rotate during zoom
+    controls.autoRotate = false;
+    
+    // Store zoom state
+    stateRef.current.isZooming = true;
+    stateRef.current.zoomTarget = targetPos.clone();
+    stateRef.current.zoomStartPos = camera.position.clone();
+    stateRef.current.zoomStartTarget = controls.target.clone();
+    stateRef.current.zoomStartTime = Date.now();
+  }, []);
 
   // Update colors in useEffect (like original commit and ConstellationCanvas) - NOT in render loop
   // This prevents bloom accumulation from mid-frame color updates
@@ -96,7 +259,16 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     if (stateRef.current.stars) {
       updateCommitColors();
     }
-  }, [selectedCommit, filteredAuthor, updateCommitColors]);
+  }, [selectedCommit, filteredAuthor, highlightedCommits, updateCommitColors]);
+
+  // Moving the timeline window or changing the lineage only restyles stars and edges, the scene stays as built
+  useEffect(() => {
+    updateEdgeStyles();
+  }, [updateEdgeStyles]);
+
+  useEffect(() => {
+    updateRefLabels();
+  }, [updateRefLabels]);
 
   // Update settings dynamically when they change (without rebuilding scene)
   useEffect(() => {
@@ -106,12 +278,20 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     stateRef.current.bloomPass.strength = settings.bloomStrength;
   }, [settings?.autoRotateSpeed, settings?.bloomStrength]);
 
-  // Only rebuild scene when repoData, theme, or pullRequests change
+  // Toggle merge edges without rebuilding the scene
+  useEffect(() => {
+    if (stateRef.current.mergeObjects) {
+      stateRef.current.mergeObjects.visible = settings.showMergeEdges;
+    }
+  }, [settings.showMergeEdges]);
+
+  // Only rebuild scene when the layout (other than by appended commits), theme, or pullRequests change
   useEffect(() => {
     if (!canvasRef.current) {
       console.warn('[GitGalaxyCanvas] No canvas ref');
       return;
     }
+    const { repoData, layout } = latestRef.current;
     if (!repoData) {
       console.warn('[GitGalaxyCanvas] No repoData provided');
       return;
@@ -138,7 +318,7 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
       
       // Dispose scene
       stateRef.current.scene.traverse(object => {
-        if (object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Group || object instanceof THREE.Sprite) {
+        if (object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Line || object instanceof THREE.Group || object instanceof THREE.Sprite) {
           if (object instanceof THREE.Group) {
             object.children.forEach(child => {
               if (child instanceof THREE.Mesh || child instanceof THREE.Sprite) {
@@ -170,25 +350,17 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
       stateRef.current.renderer.dispose();
     }
 
-    // Apply timeline filter if set
-    let filteredRepoData = repoData;
-    if (timelineCommitLimit !== null) {
-      const allHashes = Object.keys(repoData);
-      const limitedHashes = allHashes.slice(0, timelineCommitLimit);
-      filteredRepoData = {} as RepoData;
-      limitedHashes.forEach(hash => {
-        filteredRepoData[hash] = repoData[hash];
-      });
-    }
-
     const { scene, camera, renderer, controls, composer, handleResize, bloomPass } = initScene(canvasRef.current, settings);
-    const { stars } = buildGraph(scene, filteredRepoData, settings);
+    const { stars, branchObjects, mergeObjects } = buildGraph(scene, layout.repoData, settings);
+    if (layout.timeAxis) {
+      buildTimeGrid(scene, layout.timeAxis);
+    }
     
     // Build pull requests if available
     let prGroup: THREE.Group | null = null;
     let animatedPRMaterials: THREE.MeshBasicMaterial[] = [];
     if (pullRequests.length > 0) {
-      const prResult = buildPullRequests(scene, pullRequests, filteredRepoData);
+      const prResult = buildPullRequests(scene, pullRequests, layout.repoData);
       prGroup = prResult.prGroup;
       animatedPRMaterials = prResult.animatedMaterials || [];
     }
@@ -197,10 +369,14 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     stateRef.current.bloomPass = bloomPass;
     const { particles } = addAtmosphericEffects(scene);
     
-    const commitHashes = Object.keys(filteredRepoData);
+    const commitHashes = Object.keys(layout.repoData);
     stateRef.current.stars = stars;
     stateRef.current.commitHashes = commitHashes;
+    stateRef.current.builtHashes = new Set(commitHashes);
     stateRef.current.particles = particles;
+    stateRef.current.branchObjects = branchObjects;
+    stateRef.current.mergeObjects = mergeObjects;
+    stateRef.current.arrivals = [];
     stateRef.current.camera = camera;
     stateRef.current.controls = controls;
     stateRef.current.composer = composer;
@@ -211,21 +387,7 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
     
     // Initial color update
     updateCommitColors();
-    
-    // Function to zoom camera to a specific position
-    const zoomToPosition = (targetPos: THREE.Vector3) => {
-      if (!controls || !camera) return;
-      
-      // Disable auto-rotate during zoom
-      controls.autoRotate = false;
-      
-      // Store zoom state
-      stateRef.current.isZooming = true;
-      stateRef.current.zoomTarget = targetPos.clone();
-      stateRef.current.zoomStartPos = camera.position.clone();
-      stateRef.current.zoomStartTarget = controls.target.clone();
-      stateRef.current.zoomStartTime = Date.now();
-    };
+    updateEdgeStyles();
     
     // Raycasting
     const raycaster = new THREE.Raycaster();
@@ -240,17 +402,37 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
       
       raycaster.setFromCamera(mouse, camera);
 
-      const intersects = raycaster.intersectObject(stateRef.current.stars);
+      // Branch and tag labels take precedence over the stars behind them
+      const labelHits = raycaster.intersectObjects(stateRef.current.refLabels.filter(label => label.visible), false);
+      if (labelHits.length > 0) {
+        const hash = labelHits[0].object.userData.hash as string;
+        const node = latestRef.current.repoData[hash];
+        const layoutNode = latestRef.current.layout.repoData[hash];
+        if (node && layoutNode) {
+          onCommitSelect({ hash, node });
+          zoomToPosition(new THREE.Vector3(...layoutNode.pos));
+        }
+        return;
+      }
+
+      // Stars hidden by the timeline window can't be picked
+      const { repoData: currentRepoData, timelineRange: currentRange } = latestRef.current;
+      const intersection = raycaster.intersectObject(stateRef.current.stars).find(hit =>
+        hit.index !== undefined && isInRange(currentRepoData[stateRef.current.commitHashes[hit.index]], currentRange)
+      );
       
-      if (intersects.length > 0) {
-        const intersection = intersects[0];
+      if (intersection) {
         if (intersection.index !== undefined) {
           const hash = stateRef.current.commitHashes[intersection.index];
-          const node = filteredRepoData[hash] || repoData[hash];
-          if (node) {
+          const node = latestRef.current.repoData[hash];
+          const layoutNode = latestRef.current.layout.repoData[hash];
+          const { onCompareSelect } = latestRef.current;
+          if (node && layoutNode && event.shiftKey && onCompareSelect) {
+            onCompareSelect({ hash, node });
+          } else if (node && layoutNode) {
             onCommitSelect({ hash, node });
-            // Zoom to the clicked node
-            const nodePosition = new THREE.Vector3(...node.pos);
+            // Zoom to the clicked node where it is drawn in the current layout
+            const nodePosition = new THREE.Vector3(...layoutNode.pos);
             zoomToPosition(nodePosition);
           }
         }
@@ -299,6 +481,14 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
         }
       }
 
+      // Drift towards the followed commit, keeping the current viewing angle and distance
+      const followTarget = stateRef.current.followTarget;
+      if (followTarget && !stateRef.current.isZooming) {
+        const delta = new THREE.Vector3().subVectors(followTarget, controls.target).multiplyScalar(FOLLOW_EASING);
+        controls.target.add(delta);
+        camera.position.add(delta);
+      }
+
       // Animate PR materials (pulsing for open PRs)
       if (stateRef.current.animatedPRMaterials.length > 0) {
         const time = Date.now() * 0.001;
@@ -307,6 +497,33 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
         });
       }
 
+      // Grow the edges of freshly appended commits and fade out their arrival flashes
+      if (stateRef.current.arrivals.length > 0) {
+        stateRef.current.arrivals = stateRef.current.arrivals.filter(arrival => {
+          const age = Date.now() - arrival.startTime;
+          const growth = Math.min(age / EDGE_GROW_MS, 1);
+          arrival.edges.forEach(edge => {
+            const index = edge.geometry.index;
+            const count = index ? index.count : edge.geometry.attributes.position.count;
+            edge.geometry.setDrawRange(0, Math.floor(count * growth));
+          });
+
+          const fade = Math.min(age / ARRIVAL_FLASH_MS, 1);
+          arrival.flashes.forEach(flash => {
+            const size = 0.1 + fade * 1.5;
+            flash.scale.set(size, size, 1);
+            (flash.material as THREE.SpriteMaterial).opacity = 1 - fade;
+          });
+
+          if (growth < 1 || fade < 1) return true;
+          arrival.flashes.forEach(flash => {
+            flash.removeFromParent();
+            (flash.material as THREE.SpriteMaterial).dispose();
+          });
+          return false;
+        });
+      }
+
       if (stateRef.current.particles) {
         animateAtmosphericEffects(stateRef.current.particles, elapsedTime);
       }
@@ -343,7 +560,7 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
       // Dispose all scene objects
       if (stateRef.current.scene) {
         stateRef.current.scene.traverse(object => {
-          if (object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Group || object instanceof THREE.Sprite) {
+          if (object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Line || object instanceof THREE.Group || object instanceof THREE.Sprite) {
             if (object instanceof THREE.Group) {
               object.children.forEach(child => {
                 if (child instanceof THREE.Mesh || child instanceof THREE.Sprite) {
@@ -375,15 +592,94 @@ const GitGalaxyCanvas: React.FC<GitGalaxyCanvasProps> = ({
       
       // Clear references
       stateRef.current.stars = null;
+      stateRef.current.builtHashes = new Set();
       stateRef.current.particles = null;
+      stateRef.current.branchObjects = null;
+      stateRef.current.mergeObjects = null;
+      stateRef.current.refGroup = null;
+      stateRef.current.refLabels = [];
+      stateRef.current.pathGroup = null;
+      stateRef.current.arrivals = [];
       stateRef.current.prGroup = null;
       stateRef.current.animatedPRMaterials = [];
       stateRef.current.scene = null;
       stateRef.current.renderer = null;
     };
-  }, [repoData, timelineCommitLimit, settings.theme, pullRequests.length, onCommitSelect]);
+  }, [sceneLayout, settings.theme, pullRequests.length, onCommitSelect, zoomToPosition]);
+
+  // Commits that arrive through an incremental refresh are added to the running
+  // scene: their edges grow out of the parent and a halo marks each new star
+  useEffect(() => {
+    const { stars, branchObjects, mergeObjects, scene, builtHashes } = stateRef.current;
+    if (!stars || !branchObjects || !mergeObjects || !scene) return;
+
+    const newHashes = Object.keys(layout.repoData).filter(hash => !builtHashes.has(hash));
+    if (newHashes.length === 0) return;
+
+    const { newEdges } = appendCommits({ stars, branchObjects, mergeObjects }, layout.repoData, newHashes, settings);
+    newHashes.forEach(hash => builtHashes.add(hash));
+    stateRef.current.commitHashes = [...stateRef.current.commitHashes, ...newHashes];
+
+    newEdges.forEach(edge => edge.geometry.setDrawRange(0, 0));
+    const flashes = newHashes.map(hash => {
+      const flash = createArrivalFlash(layout.repoData[hash].pos);
+      scene.add(flash);
+      return flash;
+    });
+    stateRef.current.arrivals.push({ edges: newEdges, flashes, startTime: Date.now() });
+
+    updateCommitColors();
+    updateEdgeStyles();
+  }, [layout, updateCommitColors, updateEdgeStyles]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const layoutNode = latestRef.current.layout.repoData[focusRequest.hash];
+    if (layoutNode) {
+      zoomToPosition(new THREE.Vector3(...layoutNode.pos));
+    }
+  }, [focusRequest, zoomToPosition]);
+
+  useEffect(() => {
+    const layoutNode = followCommit ? layout.repoData[followCommit] : undefined;
+    stateRef.current.followTarget = layoutNode ? new THREE.Vector3(...layoutNode.pos) : null;
+    if (layoutNode && stateRef.current.controls) {
+      stateRef.current.controls.autoRotate = false;
+    }
+  }, [followCommit, layout]);
+
+  // Branch and tag labels are rebuilt on their own, since a refresh usually
+  // moves refs without requiring the rest of the scene to be rebuilt
+  useEffect(() => {
+    const { scene, builtHashes } = stateRef.current;
+    if (!scene) return;
+
+    if (stateRef.current.refGroup) {
+      disposeObject(stateRef.current.refGroup);
+      stateRef.current.refGroup.removeFromParent();
+    }
+    const drawnRefs = refs.filter(ref => builtHashes.has(ref.target));
+    const { refGroup, labelSprites } = buildRefLabels(scene, drawnRefs, layout.repoData);
+    stateRef.current.refGroup = refGroup;
+    stateRef.current.refLabels = labelSprites;
+    updateRefLabels();
+    // The timeline window only toggles visibility (see updateRefLabels), so
+    // moving it doesn't redraw the label textures
+  }, [refs, layout, sceneLayout, settings.theme, pullRequests.length, onCommitSelect]);
+
+  // Highlighted paths follow the same rebuild rules as the ref labels
+  useEffect(() => {
+    const { scene } = stateRef.current;
+    if (!scene) return;
+
+    if (stateRef.current.pathGroup) {
+      disposeObject(stateRef.current.pathGroup);
+      stateRef.current.pathGroup.removeFromParent();
+    }
+    stateRef.current.pathGroup = buildPathHighlights(scene, highlightedPaths, layout.repoData);
+  }, [highlightedPaths, layout, sceneLayout, settings.theme, pullRequests.length, onCommitSelect]);
 
   return <canvas ref={canvasRef} className="webgl fixed top-0 left-0 outline-none" />;
 };
 
-export default GitGalaxyCanvas;
\ No newline at end of file
+export default GitGalaxyCanvas;
@@ -1,18 +1,31 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import type { User } from '../types';
 import { API_BASE_URL } from '../config';
+import HostTokenMenu from './HostTokenMenu';
 
 interface HeaderProps {
   authState: 'loading' | 'authenticated' | 'unauthenticated';
   user: User | null;
   onLogout: () => void;
   onSearchRepo?: (repoUrl: string) => void;
+  // Signed-in users have no input form, so exported galaxies are opened from here
+  onOpenFile?: (file: File) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ authState, user, onLogout, onSearchRepo }) => {
+const Header: React.FC<HeaderProps> = ({ authState, user, onLogout, onSearchRepo, onOpenFile }) => {
   const [searchUrl, setSearchUrl] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onOpenFile) {
+      onOpenFile(file);
+    }
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+  };
 
   const handleLogout = async () => {
     try {
@@ -70,7 +83,7 @@ const Header: React.FC<HeaderProps> = ({ authState, user, onLogout, onSearchRepo
               type="text"
               value={searchUrl}
               onChange={(e) => setSearchUrl(e.target.value)}
-              placeholder="Search GitHub repo URL..."
+              placeholder="Search git repo URL..."
               className="px-2 sm:px-3 py-1.5 sm:py-2 bg-black/50 border border-white/20 rounded text-white/90 font-mono text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-shadow flex-1 w-full"
               disabled={isSearching}
             />
@@ -81,6 +94,25 @@ const Header: React.FC<HeaderProps> = ({ authState, user, onLogout, onSearchRepo
             >
               {isSearching ? '...' : 'Search'}
             </button>
+            {authState === 'authenticated' && onOpenFile && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  title="Open a galaxy exported with npm run export"
+                  className="px-3 sm:px-4 py-1.5 sm:py-2 border border-cyan-500/60 hover:bg-cyan-500/20 text-cyan-300 font-mono rounded transition-colors text-xs sm:text-sm whitespace-nowrap"
+                >
+                  Open File...
+                </button>
+              </>
+            )}
           </form>
         )}
         
@@ -89,7 +121,8 @@ const Header: React.FC<HeaderProps> = ({ authState, user, onLogout, onSearchRepo
         )}
         
         {/* Login button or Avatar on right */}
-        <div className="flex-shrink-0 pointer-events-auto">
+        <div className="flex-shrink-0 flex items-center gap-2 sm:gap-3 pointer-events-auto">
+          {authState !== 'loading' && <HostTokenMenu />}
           {authState === 'unauthenticated' && (
             <a
               href={`${API_BASE_URL}/api/auth/github`}
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { API_BASE_URL } from '../config';
+
+// Personal access tokens for GitLab and Bitbucket hosts. GitHub uses the
+// login; these hosts have no sign-in here, so private repositories on them
+// need a token of the user's own. Tokens stay in the session on the server.
+const HostTokenMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hosts, setHosts] = useState<string[]>([]);
+  const [host, setHost] = useState('gitlab.com');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, init?: RequestInit) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/auth/tokens${path}`, { credentials: 'include', ...init });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update tokens');
+      }
+      setHosts(data.hosts);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tokens');
+      return false;
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) request('');
+    setIsOpen(!isOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await request('', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ host: host.trim(), token: token.trim() }),
+    });
+    if (added) setToken('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        title="Access tokens for GitLab and Bitbucket"
+        className="px-3 sm:px-4 py-1.5 sm:py-2 border border-cyan-500/60 hover:bg-cyan-500/20 text-cyan-300 font-mono rounded transition-colors text-xs sm:text-sm whitespace-nowrap"
+      >
+        Tokens
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop to close the menu on click outside */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute top-12 right-0 z-50 w-72 bg-black/90 backdrop-blur-sm border border-cyan-300/30 rounded-lg shadow-lg shadow-cyan-500/20 p-3 font-mono text-xs sm:text-sm">
+            <p className="text-white/60 mb-2">Private GitLab and Bitbucket repositories are read with your own access token.</p>
+            {hosts.map(tokenHost => (
+              <div key={tokenHost} className="flex items-center justify-between gap-2 py-1 text-white/90">
+                <span className="truncate">{tokenHost}</span>
+                <button
+                  onClick={() => request(`/${encodeURIComponent(tokenHost)}`, { method: 'DELETE' })}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <form onSubmit={handleSubmit} className="mt-2 flex flex-col gap-2">
+              <input
+                type="text"
+                value={host}
+                onChange={(e) => setHost(e.target.value)}
+                placeholder="gitlab.com or bitbucket.org"
+                className="px-2 py-1.5 bg-black/50 border border-white/20 rounded text-white/90 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+              />
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Access token"
+                autoComplete="off"
+                className="px-2 py-1.5 bg-black/50 border border-white/20 rounded text-white/90 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+              />
+              <button
+                type="submit"
+                disabled={!host.trim() || !token.trim()}
+                className="py-1.5 bg-cyan-500/80 hover:bg-cyan-500 disabled:bg-cyan-500/40 disabled:cursor-not-allowed text-black font-bold rounded transition-colors"
+              >
+                Add Token
+              </button>
+            </form>
+            {error && <p className="mt-2 text-red-400/90 break-words">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HostTokenMenu;
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import type { FileChurn } from '../types';
+
+interface HotspotPanelProps {
+  churn: FileChurn[];
+  activePath: string | null;
+  // Missing when the galaxy was opened from a file and there is no backend to ask
+  onSelectPath?: (path: string) => Promise<void>;
+}
+
+type SortKey = 'commits' | 'lines' | 'authors';
+
+interface ChurnNode {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  // For directories: summed over the files inside, so a commit touching two files counts twice
+  commits: number;
+  lines: number;
+  authors: Set<string>;
+  children: ChurnNode[];
+}
+
+const sortLabels: Record<SortKey, string> = {
+  commits: 'Commits',
+  lines: 'Lines',
+  authors: 'Authors',
+};
+
+const metric = (node: ChurnNode, key: SortKey) =>
+  key === 'commits' ? node.commits : key === 'lines' ? node.lines : node.authors.size;
+
+// Folds the flat per-file list into a directory tree with totals on every directory
+const buildChurnTree = (churn: FileChurn[]): ChurnNode => {
+  const root: ChurnNode = { name: '', path: '', isDirectory: true, commits: 0, lines: 0, authors: new Set(), children: [] };
+  const directories = new Map<string, ChurnNode>([['', root]]);
+
+  churn.forEach(file => {
+    const segments = file.path.split('/');
+    const lines = file.insertions + file.deletions;
+    let parent = root;
+    const ancestors = [root];
+
+    for (let i = 0; i < segments.length - 1; i++) {
+      const path = segments.slice(0, i + 1).join('/');
+      let directory = directories.get(path);
+      if (!directory) {
+        directory = { name: segments[i], path, isDirectory: true, commits: 0, lines: 0, authors: new Set(), children: [] };
+        directories.set(path, directory);
+        parent.children.push(directory);
+      }
+      ancestors.push(directory);
+      parent = directory;
+    }
+
+    parent.children.push({
+      name: segments[segments.length - 1],
+      path: file.path,
+      isDirectory: false,
+      commits: file.commits,
+      lines,
+      authors: new Set(file.authors),
+      children: [],
+    });
+    ancestors.forEach(directory => {
+      directory.commits += file.commits;
+      directory.lines += lines;
+      file.authors.forEach(author => directory.authors.add(author));
+    });
+  });
+
+  return root;
+};
+
+// Bar colour runs from cool cyan for quiet files to red for the hottest ones
+const heatColor = (ratio: number) => `hsl(${Math.round(190 - 190 * ratio)}, 90%, 55%)`;
+
+// Where does the code change most? Per-file churn as a collapsible directory tree
+const HotspotPanel: React.FC<HotspotPanelProps> = ({ churn, activePath, onSelectPath }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('commits');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildChurnTree(churn), [churn]);
+
+  const toggleDirectory = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const selectPath = async (path: string) => {
+    if (!onSelectPath || loadingPath) return;
+    setLoadingPath(path);
+    setError(null);
+    try {
+      await onSelectPath(path);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load path history');
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  const renderChildren = (parent: ChurnNode, depth: number): React.ReactNode => {
+    const children = [...parent.children].sort((a, b) => metric(b, sortKey) - metric(a, sortKey) || a.name.localeCompare(b.name));
+    // Bars are relative to the hottest sibling, so every level shows its own hotspots
+    const max = Math.max(1, ...children.map(child => metric(child, sortKey)));
+
+    return children.map(node => {
+      const isExpanded = expanded.has(node.path);
+      const ratio = metric(node, sortKey) / max;
+      return (
+        <li key={node.path}>
+          <div
+            className={`flex items-center gap-1 py-0.5 pr-1 rounded ${node.path === activePath ? 'bg-cyan-500/20' : 'hover:bg-white/5'}`}
+            style={{ paddingLeft: `${depth * 0.75}rem` }}
+          >
+            {node.isDirectory ? (
+              <button
+                onClick={() => toggleDirectory(node.path)}
+                className="w-3 text-white/40 hover:text-white text-xs flex-shrink-0"
+                aria-label={isExpanded ? `Collapse ${node.path}` : `Expand ${node.path}`}
+                aria-expanded={isExpanded}
+              >
+                {isExpanded ? '▾' : '▸'}
+              </button>
+            ) : (
+              <span className="w-3 flex-shrink-0" />
+            )}
+            <button
+              onClick={() => (onSelectPath ? selectPath(node.path) : node.isDirectory && toggleDirectory(node.path))}
+              disabled={loadingPath !== null}
+              className="flex-1 min-w-0 text-left text-xs text-white/80 hover:text-white truncate disabled:cursor-wait"
+              title={`${node.path}${node.isDirectory ? '/' : ''}: ${node.commits} commits, ${node.lines} lines changed, ${node.authors.size} authors`}
+            >
+              {node.name}{node.isDirectory ? '/' : ''}
+            </button>
+            <span className="w-10 h-1.5 bg-white/10 rounded-full overflow-hidden flex-shrink-0">
+              <span className="block h-full rounded-full" style={{ width: `${Math.max(4, ratio * 100)}%`, backgroundColor: heatColor(ratio) }} />
+            </span>
+            <span className="w-10 text-right text-[10px] text-white/60 flex-shrink-0">{metric(node, sortKey)}</span>
+          </div>
+          {node.isDirectory && isExpanded && <ul>{renderChildren(node, depth + 1)}</ul>}
+        </li>
+      );
+    });
+  };
+
+  return (
+    <div className="absolute bottom-24 sm:bottom-28 right-3 sm:right-4 w-64 sm:w-80 bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 text-white font-mono shadow-lg shadow-cyan-500/10 z-50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xs sm:text-sm text-cyan-300/80 uppercase tracking-widest"
+        aria-expanded={isOpen}
+      >
+        <span>Hotspots</span>
+        <span className="text-white/40">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          <div className="flex text-xs border border-white/20 rounded overflow-hidden mb-2">
+            {(Object.keys(sortLabels) as SortKey[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setSortKey(key)}
+                className={`flex-1 px-2 py-0.5 transition-colors ${sortKey === key ? 'bg-cyan-500/80 text-black' : 'text-white/60 hover:text-white'}`}
+              >
+                {sortLabels[key]}
+              </button>
+            ))}
+          </div>
+
+          {churn.length === 0 ? (
+            <p className="text-xs text-white/50">
+              {onSelectPath ? 'No change statistics for this repository yet. Refresh it to collect them.' : 'This export has no change statistics.'}
+            </p>
+          ) : (
+            <ul className="max-h-64 sm:max-h-80 overflow-y-auto">{renderChildren(tree, 0)}</ul>
+          )}
+
+          {loadingPath && <p className="mt-2 text-xs text-white/50">Searching history...</p>}
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+          {!onSelectPath && churn.length > 0 && (
+            <p className="mt-2 text-xs text-white/40">Highlighting commits needs the backend; this galaxy was opened from a file.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HotspotPanel;
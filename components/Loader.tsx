@@ -1,11 +1,87 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { JobProgress, JobStage } from '../types';
+
+interface LoaderProps {
+  // Progress of the analysis job; without it only the spinner is shown
+  progress?: JobProgress | null;
+  startedAt?: number | null; // ms timestamp, for the elapsed time
+  onCancel?: () => void;
+}
+
+// Steps shown under the progress bar, with the share of the bar each one gets
+const STEPS: { label: string, stages: JobStage[], weight: number }[] = [
+  { label: 'Queued', stages: ['queued'], weight: 5 },
+  { label: 'Cloning', stages: ['cloning', 'fetching'], weight: 50 },
+  { label: 'Reading log', stages: ['reading'], weight: 25 },
+  { label: 'Laying out', stages: ['layout'], weight: 15 },
+  { label: 'Storing', stages: ['storing'], weight: 5 },
+];
+const TOTAL_WEIGHT = STEPS.reduce((sum, step) => sum + step.weight, 0);
+// A repository seen before is fetched rather than cloned
+const STAGE_LABELS: Partial<Record<JobStage, string>> = { fetching: 'Fetching' };
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const Loader: React.FC<LoaderProps> = ({ progress, startedAt, onCancel }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!startedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const stepIndex = progress ? STEPS.findIndex(step => step.stages.includes(progress.stage)) : -1;
+  const completedWeight = STEPS.slice(0, Math.max(stepIndex, 0)).reduce((sum, step) => sum + step.weight, 0);
+  const stepWeight = stepIndex >= 0 ? STEPS[stepIndex].weight * ((progress?.percent ?? 0) / 100) : 0;
+  const overall = Math.round(((completedWeight + stepWeight) / TOTAL_WEIGHT) * 100);
+  const labelOf = (index: number) =>
+    (index === stepIndex && progress && STAGE_LABELS[progress.stage]) || STEPS[index].label;
 
-const Loader: React.FC = () => {
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 backdrop-blur-sm z-50 p-4">
       <div className="w-12 h-12 sm:w-16 sm:h-16 border-4 border-cyan-300/50 border-t-cyan-300 rounded-full animate-spin"></div>
       <p className="mt-3 sm:mt-4 text-white/80 font-mono tracking-widest text-sm sm:text-base">Analyzing Repository...</p>
-      <p className="mt-2 text-white/50 font-mono text-xs sm:text-sm text-center">This may take a moment for large repos.</p>
+      {startedAt ? (
+        <div className="mt-4 w-72 sm:w-96 font-mono">
+          <div className="flex justify-between text-xs text-white/60 mb-1">
+            <span>
+              {stepIndex >= 0 ? labelOf(stepIndex) : 'Starting'}
+              {progress?.percent != null && ` ${progress.percent}%`}
+            </span>
+            <span>{formatElapsed(now - startedAt)}</span>
+          </div>
+          <div className="h-2 bg-white/10 rounded overflow-hidden">
+            <div
+              className="h-full bg-cyan-400 transition-all duration-300"
+              style={{ width: `${overall}%` }}
+            />
+          </div>
+          <div className="flex justify-between mt-2 text-[10px] sm:text-xs">
+            {STEPS.map((step, index) => (
+              <span
+                key={step.label}
+                className={index === stepIndex ? 'text-cyan-300' : index < stepIndex ? 'text-white/60' : 'text-white/30'}
+              >
+                {labelOf(index)}
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-2 text-white/50 font-mono text-xs sm:text-sm text-center">This may take a moment for large repos.</p>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-4 px-3 py-1 bg-black/60 border border-red-400/60 hover:bg-red-500/20 text-red-300 font-mono text-xs rounded transition-colors"
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -25,4 +101,4 @@ style.innerHTML = keyframes;
 document.head.appendChild(style);
 
 
-export default Loader;
\ No newline at end of file
+export default Loader;
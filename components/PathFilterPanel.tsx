@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import type { PathEntry, PathHistory } from '../types';
+import { API_BASE_URL } from '../config';
+
+interface PathFilterPanelProps {
+  repoUrl: string;
+  activeFilter: PathHistory | null;
+  onFilterChange: (history: PathHistory | null) => void;
+}
+
+// Wait for a pause in typing before asking the backend for suggestions
+const SUGGESTION_DELAY_MS = 200;
+
+// "How did src/auth/ evolve?": highlights every commit that touched a file or directory
+const PathFilterPanel: React.FC<PathFilterPanelProps> = ({ repoUrl, activeFilter, onFilterChange }) => {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<PathEntry[]>([]);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the path when the filter was set from elsewhere, e.g. the hotspot panel
+  useEffect(() => {
+    if (activeFilter) setQuery(activeFilter.path);
+  }, [activeFilter]);
+
+  useEffect(() => {
+    if (!showSuggestions || !query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/repo/tree?repoUrl=${encodeURIComponent(repoUrl)}&query=${encodeURIComponent(query.trim())}`, {
+          credentials: 'include'
+        });
+        if (!response.ok) return;
+        const paths: PathEntry[] = await response.json();
+        if (isCurrent) {
+          setSuggestions(paths);
+          setHighlightedIndex(-1);
+        }
+      } catch (err) {
+        console.error('Failed to fetch path suggestions:', err);
+      }
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query, repoUrl, showSuggestions]);
+
+  const applyPath = async (path: string) => {
+    if (!path.trim()) return;
+    setShowSuggestions(false);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/repo/path-history?repoUrl=${encodeURIComponent(repoUrl)}&path=${encodeURIComponent(path.trim())}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to load path history');
+      }
+      const history: PathHistory = await response.json();
+      setQuery(history.path);
+      onFilterChange(history);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load path history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearFilter = () => {
+    setQuery('');
+    setError(null);
+    setSuggestions([]);
+    onFilterChange(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlightedIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const suggestion = showSuggestions ? suggestions[highlightedIndex] : undefined;
+      applyPath(suggestion ? suggestion.path : query);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-20 sm:top-24 md:top-28 left-3 sm:left-4 w-64 sm:w-72 bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 text-white font-mono shadow-lg shadow-cyan-500/10 z-50">
+      <label htmlFor="pathFilter" className="block text-xs text-cyan-300/80 uppercase tracking-widest mb-2">File History</label>
+      <div className="relative">
+        <div className="flex gap-1">
+          <input
+            id="pathFilter"
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => setShowSuggestions(false)}
+            onKeyDown={handleKeyDown}
+            placeholder="e.g. src/auth/"
+            className="flex-1 min-w-0 px-2 py-1.5 bg-black/50 border border-white/20 rounded text-white/90 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            disabled={isLoading}
+          />
+          {activeFilter && (
+            <button
+              onClick={clearFilter}
+              className="px-2 text-white/50 hover:text-white transition-colors text-lg leading-none"
+              aria-label="Clear path filter"
+            >
+              &times;
+            </button>
+          )}
+        </div>
+
+        {showSuggestions && suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 mt-1 max-h-60 overflow-y-auto bg-black/90 border border-cyan-300/30 rounded shadow-lg z-50">
+            {suggestions.map((entry, index) => (
+              <li key={entry.path}>
+                <button
+                  // Keep focus in the input so onBlur doesn't hide the list before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyPath(entry.path)}
+                  className={`w-full text-left px-2 py-1 text-xs truncate transition-colors ${index === highlightedIndex ? 'bg-cyan-500/30 text-white' : 'text-white/80 hover:bg-white/10'}`}
+                >
+                  {entry.path}{entry.type === 'directory' ? '/' : ''}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {isLoading && <p className="mt-2 text-xs text-white/50">Searching history...</p>}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      {activeFilter && !isLoading && (
+        <p className="mt-2 text-xs text-white/60">
+          {activeFilter.hashes.length} commit{activeFilter.hashes.length === 1 ? '' : 's'} touched <span className="text-cyan-300 break-all">{activeFilter.path}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PathFilterPanel;
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RepoData, TimeRange } from '../types';
+import { commitTimeOf } from '../lib/layout/chronological';
+
+interface PlaybackControlsProps {
+  repoData: RepoData;
+  // Called for every step: the window of history revealed so far, and the
+  // newest revealed commit when the camera should follow it
+  onFrame: (range: TimeRange | null, followHash: string | null) => void;
+}
+
+// Commits revealed per second at each speed setting
+const SPEEDS = [5, 20, 100, 500];
+
+const formatDate = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// "Watch the project being built": replays the history commit by commit
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ repoData, onFrame }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+  const [followCamera, setFollowCamera] = useState(true);
+  // Index into `timeline` of the newest revealed commit
+  const [playhead, setPlayhead] = useState(0);
+
+  const timeline = useMemo(
+    () => Object.entries(repoData)
+      .map(([hash, node]) => ({ hash, time: commitTimeOf(node) }))
+      .sort((a, b) => a.time - b.time),
+    [repoData]
+  );
+  const lastIndex = timeline.length - 1;
+  const current = timeline[Math.min(playhead, lastIndex)];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId: number;
+    let lastFrame = performance.now();
+    let carry = 0;
+    const step = (now: number) => {
+      carry += ((now - lastFrame) / 1000) * speed;
+      lastFrame = now;
+      const advance = Math.floor(carry);
+      if (advance > 0) {
+        carry -= advance;
+        setPlayhead(index => Math.min(index + advance, lastIndex));
+      }
+      frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, lastIndex]);
+
+  useEffect(() => {
+    if (isPlaying && playhead >= lastIndex) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, playhead, lastIndex]);
+
+  useEffect(() => {
+    if (!isOpen || !current) return;
+    onFrame({ start: timeline[0].time, end: current.time }, followCamera ? current.hash : null);
+  }, [isOpen, current, followCamera, timeline, onFrame]);
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Starting again from the end replays from the first commit
+    if (playhead >= lastIndex) setPlayhead(0);
+    setIsPlaying(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setIsPlaying(false);
+    onFrame(null, null);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => {
+          setPlayhead(0);
+          setIsOpen(true);
+        }}
+        disabled={timeline.length === 0}
+        className="absolute bottom-14 sm:bottom-16 left-1/2 -translate-x-1/2 px-3 py-1 bg-black/60 border border-cyan-500/60 hover:bg-cyan-500/20 text-cyan-300 font-mono text-xs rounded transition-colors z-50"
+      >
+        ▶ Playback
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-14 sm:bottom-16 left-1/2 -translate-x-1/2 w-72 sm:w-96 bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 text-white font-mono shadow-lg shadow-cyan-500/10 z-50">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={togglePlayback}
+          className="w-8 h-8 flex-shrink-0 bg-cyan-500/80 hover:bg-cyan-500 text-black font-bold rounded transition-colors"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between text-xs">
+            <span className="text-cyan-300">{current ? formatDate(current.time) : ''}</span>
+            <span className="text-white/50">{Math.min(playhead, lastIndex) + 1} / {timeline.length}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={Math.max(lastIndex, 0)}
+            value={Math.min(playhead, lastIndex)}
+            onChange={(e) => setPlayhead(parseInt(e.target.value, 10))}
+            className="w-full h-2 bg-black/50 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+            aria-label="Playback position"
+          />
+        </div>
+        <button
+          onClick={close}
+          className="px-1 text-white/50 hover:text-white transition-colors text-lg leading-none"
+          aria-label="Close playback"
+        >
+          &times;
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <div className="flex border border-white/20 rounded overflow-hidden">
+          {SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-2 py-0.5 transition-colors ${speed === option ? 'bg-cyan-500/80 text-black' : 'text-white/60 hover:text-white'}`}
+              title={`${option} commits per second`}
+            >
+              {option}/s
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-white/60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={followCamera}
+            onChange={(e) => setFollowCamera(e.target.checked)}
+            className="accent-cyan-400"
+          />
+          Follow newest
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
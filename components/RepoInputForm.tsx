@@ -1,31 +1,68 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 
 interface RepoInputFormProps {
   onAnalyze: (repoUrl: string) => void;
+  onOpenFile: (file: File) => void;
   error: string | null;
 }
 
-const RepoInputForm: React.FC<RepoInputFormProps> = ({ onAnalyze, error }) => {
+const RepoInputForm: React.FC<RepoInputFormProps> = ({ onAnalyze, onOpenFile, error }) => {
   const [repoUrl, setRepoUrl] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onAnalyze(repoUrl);
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpenFile(file);
+    }
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      onOpenFile(file);
+    }
+  };
+
   return (
     <div className="absolute inset-0 flex items-center justify-center p-4 sm:p-6 md:p-8">
       <div className="w-full max-w-lg">
-        <form onSubmit={handleSubmit} className="bg-black/30 backdrop-blur-sm border border-cyan-300/20 p-4 sm:p-6 md:p-8 rounded-lg shadow-lg shadow-cyan-500/10">
+        <form
+          onSubmit={handleSubmit}
+          onDragOver={handleDragOver}
+          onDragLeave={(e) => {
+            // Moving between the form's own children also fires dragleave
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+          }}
+          onDrop={handleDrop}
+          className={`bg-black/30 backdrop-blur-sm border p-4 sm:p-6 md:p-8 rounded-lg shadow-lg shadow-cyan-500/10 transition-colors ${isDragging ? 'border-cyan-300 bg-cyan-500/10' : 'border-cyan-300/20'}`}
+        >
           <label htmlFor="repoUrl" className="block text-white/80 font-mono text-base sm:text-lg mb-2 sm:mb-3">
-            Enter Public GitHub Repo URL
+            Enter a Git Repository URL
           </label>
           <input
             id="repoUrl"
             type="text"
             value={repoUrl}
             onChange={(e) => setRepoUrl(e.target.value)}
-            placeholder="e.g., https://github.com/facebook/react"
+            placeholder="e.g., https://github.com/facebook/react or git@gitlab.com:group/project.git"
             className="w-full bg-black/50 border border-white/20 rounded p-2.5 sm:p-3 text-white/90 font-mono text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-cyan-400 transition-shadow"
           />
           <button
@@ -34,6 +71,27 @@ const RepoInputForm: React.FC<RepoInputFormProps> = ({ onAnalyze, error }) => {
           >
             Analyze Repository
           </button>
+
+          {/* Offline: galaxies exported with `npm run export` in backend/ */}
+          <div className="mt-4 sm:mt-5 pt-3 sm:pt-4 border-t border-white/10 text-center">
+            <p className="text-white/50 font-mono text-xs sm:text-sm">
+              {isDragging ? 'Drop to open the galaxy' : 'or drop an exported galaxy JSON file here'}
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="mt-2 px-3 py-1.5 border border-cyan-500/60 hover:bg-cyan-500/20 text-cyan-300 font-mono text-xs sm:text-sm rounded transition-colors"
+            >
+              Open File...
+            </button>
+          </div>
            {error && (
             <p className="mt-3 sm:mt-4 text-center text-red-400/90 font-mono text-xs sm:text-sm bg-red-500/10 border border-red-500/20 p-2 sm:p-3 rounded break-words">
               {error}
@@ -45,4 +103,4 @@ const RepoInputForm: React.FC<RepoInputFormProps> = ({ onAnalyze, error }) => {
   );
 };
 
-export default RepoInputForm;
\ No newline at end of file
+export default RepoInputForm;
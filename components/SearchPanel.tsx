@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { RepoData } from '../types';
+
+interface SearchPanelProps {
+  repoData: RepoData;
+  onResultSelect: (hash: string) => void;
+}
+
+type SearchField = 'all' | 'hash' | 'message' | 'author';
+
+// Long result lists are stepped through with next/previous; only the first ones are listed
+const MAX_LISTED_RESULTS = 100;
+
+const fieldLabels: Record<SearchField, string> = {
+  all: 'All',
+  hash: 'Hash',
+  message: 'Message',
+  author: 'Author',
+};
+
+// Hashes of the matching commits, newest first. Hashes match by prefix, messages
+// by substring or regex, authors by name or email substring; case never matters.
+const searchCommits = (repoData: RepoData, query: string, field: SearchField, useRegex: boolean): string[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  // Invalid patterns throw here and are reported by the caller
+  const pattern = useRegex && (field === 'all' || field === 'message') ? new RegExp(query.trim(), 'i') : null;
+  const matchesText = (text: string) => (pattern ? pattern.test(text) : text.toLowerCase().includes(needle));
+
+  return Object.entries(repoData)
+    .filter(([hash, node]) =>
+      ((field === 'all' || field === 'hash') && hash.toLowerCase().startsWith(needle)) ||
+      ((field === 'all' || field === 'message') && (matchesText(node.message) || matchesText(node.body))) ||
+      ((field === 'all' || field === 'author') && (node.author.toLowerCase().includes(needle) || node.authorEmail.toLowerCase().includes(needle)))
+    )
+    .sort(([, a], [, b]) => b.commitTime - a.commitTime)
+    .map(([hash]) => hash);
+};
+
+// Finds commits by hash, message or author and flies to each result in turn
+const SearchPanel: React.FC<SearchPanelProps> = ({ repoData, onResultSelect }) => {
+  const [query, setQuery] = useState('');
+  const [field, setField] = useState<SearchField>('all');
+  const [useRegex, setUseRegex] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const { results, error } = useMemo(() => {
+    try {
+      return { results: searchCommits(repoData, query, field, useRegex), error: null };
+    } catch (err) {
+      return { results: [] as string[], error: err instanceof Error ? err.message : 'Invalid pattern' };
+    }
+  }, [repoData, query, field, useRegex]);
+
+  // A new search starts over; stepping begins at the first result
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query, field, useRegex]);
+
+  const goTo = (index: number) => {
+    if (results.length === 0) return;
+    const wrapped = (index + results.length) % results.length;
+    setActiveIndex(wrapped);
+    onResultSelect(results[wrapped]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goTo(e.shiftKey ? activeIndex - 1 : activeIndex + 1);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="absolute top-20 sm:top-24 md:top-28 left-1/2 -translate-x-1/2 w-64 sm:w-80 bg-black/70 backdrop-blur-sm border border-cyan-300/20 rounded-lg p-3 text-white font-mono shadow-lg shadow-cyan-500/10 z-50">
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search commits..."
+          aria-label="Search commits"
+          className="flex-1 min-w-0 px-2 py-1.5 bg-black/50 border border-white/20 rounded text-white/90 text-xs focus:outline-none focus:ring-2 focus:ring-cyan-400"
+        />
+        <button
+          onClick={() => goTo(activeIndex - 1)}
+          disabled={results.length === 0}
+          className="px-2 text-white/60 hover:text-white disabled:opacity-30 transition-colors text-xs"
+          aria-label="Previous result"
+          title="Previous result (Shift+Enter)"
+        >
+          ▲
+        </button>
+        <button
+          onClick={() => goTo(activeIndex + 1)}
+          disabled={results.length === 0}
+          className="px-2 text-white/60 hover:text-white disabled:opacity-30 transition-colors text-xs"
+          aria-label="Next result"
+          title="Next result (Enter)"
+        >
+          ▼
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 gap-2">
+        <div className="flex text-xs border border-white/20 rounded overflow-hidden">
+          {(Object.keys(fieldLabels) as SearchField[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setField(option)}
+              className={`px-1.5 py-0.5 transition-colors ${field === option ? 'bg-cyan-500/80 text-black' : 'text-white/60 hover:text-white'}`}
+            >
+              {fieldLabels[option]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-xs text-white/60 cursor-pointer" title="Match messages against a regular expression">
+          <input
+            type="checkbox"
+            checked={useRegex}
+            onChange={(e) => setUseRegex(e.target.checked)}
+            className="accent-cyan-400"
+          />
+          .*
+        </label>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      {!error && query.trim() && (
+        <p className="mt-2 text-xs text-white/60">
+          {results.length === 0
+            ? 'No matching commits'
+            : `${activeIndex >= 0 ? `${activeIndex + 1} / ` : ''}${results.length} result${results.length === 1 ? '' : 's'}`}
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="mt-1 max-h-48 overflow-y-auto">
+          {results.slice(0, MAX_LISTED_RESULTS).map((hash, index) => (
+            <li key={hash}>
+              <button
+                onClick={() => goTo(index)}
+                className={`w-full text-left px-2 py-1 text-xs truncate transition-colors rounded ${index === activeIndex ? 'bg-cyan-500/30 text-white' : 'text-white/80 hover:bg-white/10'}`}
+                title={`${repoData[hash].message}\n${repoData[hash].author}`}
+              >
+                <span className="text-cyan-300/80">{hash.substring(0, 7)}</span> {repoData[hash].message}
+              </button>
+            </li>
+          ))}
+          {results.length > MAX_LISTED_RESULTS && (
+            <li className="px-2 py-1 text-xs text-white/40">
+              {results.length - MAX_LISTED_RESULTS} more, use next/previous to reach them
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import type { TimeRange } from '../types';
+
+interface TimelineRangeSliderProps {
+  commitTimes: number[]; // unix seconds
+  range: TimeRange | null;
+  onRangeChange: (range: TimeRange | null) => void;
+}
+
+// Handles move in this many steps across the whole history
+const SLIDER_STEPS = 1000;
+const HISTOGRAM_BINS = 40;
+
+const formatDate = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Only the thumbs of the two stacked range inputs take pointer events, so either can be dragged
+const thumbClasses = 'absolute inset-x-0 bottom-0 w-full h-4 appearance-none bg-transparent pointer-events-none ' +
+  '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 ' +
+  '[&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:cursor-pointer ' +
+  '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:border-0 ' +
+  '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-cyan-400 [&::-moz-range-thumb]:cursor-pointer';
+
+// Two-handle date-range slider with a histogram of commit activity behind it
+const TimelineRangeSlider: React.FC<TimelineRangeSliderProps> = ({ commitTimes, range, onRangeChange }) => {
+  const { first, last, bins, peak } = useMemo(() => {
+    // reduce rather than Math.min(...times), which overflows the stack on big histories
+    const first = commitTimes.length > 0 ? commitTimes.reduce((a, b) => Math.min(a, b)) : 0;
+    const last = commitTimes.length > 0 ? commitTimes.reduce((a, b) => Math.max(a, b)) : 0;
+    const bins = new Array(HISTOGRAM_BINS).fill(0);
+    const span = last - first;
+    commitTimes.forEach(time => {
+      const bin = span > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor(((time - first) / span) * HISTOGRAM_BINS)) : 0;
+      bins[bin]++;
+    });
+    return { first, last, bins, peak: Math.max(1, ...bins) };
+  }, [commitTimes]);
+
+  const span = last - first;
+  const toStep = (time: number) => (span > 0 ? Math.round(((time - first) / span) * SLIDER_STEPS) : 0);
+  const toTime = (step: number) => (step >= SLIDER_STEPS ? last : first + Math.round((span * step) / SLIDER_STEPS));
+
+  const start = range ? range.start : first;
+  const end = range ? range.end : last;
+  const startStep = toStep(start);
+  const endStep = toStep(end);
+  const shownCount = useMemo(
+    () => commitTimes.filter(time => time >= start && time <= end).length,
+    [commitTimes, start, end]
+  );
+
+  const updateRange = (nextStart: number, nextEnd: number) => {
+    // Back to the full history: drop the filter altogether
+    onRangeChange(nextStart <= 0 && nextEnd >= SLIDER_STEPS ? null : { start: toTime(nextStart), end: toTime(nextEnd) });
+  };
+
+  if (span <= 0) {
+    return <p className="text-xs text-white/50">All commits share one timestamp</p>;
+  }
+
+  return (
+    <div>
+      <div className="relative h-10">
+        <div className="absolute inset-x-0 top-0 h-6 flex items-end gap-px pointer-events-none">
+          {bins.map((count, index) => {
+            const binStep = ((index + 0.5) / HISTOGRAM_BINS) * SLIDER_STEPS;
+            const selected = binStep >= startStep && binStep <= endStep;
+            return (
+              <div
+                key={index}
+                className={`flex-1 rounded-t-sm ${selected ? 'bg-cyan-400/60' : 'bg-white/15'}`}
+                style={{ height: `${count > 0 ? Math.max(8, (count / peak) * 100) : 0}%` }}
+              />
+            );
+          })}
+        </div>
+        <div className="absolute inset-x-0 bottom-[7px] h-0.5 bg-white/20 rounded pointer-events-none" />
+        <input
+          type="range"
+          min="0"
+          max={SLIDER_STEPS}
+          value={startStep}
+          onChange={(e) => updateRange(Math.min(parseInt(e.target.value, 10), endStep), endStep)}
+          className={thumbClasses}
+          aria-label="Timeline start"
+        />
+        <input
+          type="range"
+          min="0"
+          max={SLIDER_STEPS}
+          value={endStep}
+          onChange={(e) => updateRange(startStep, Math.max(parseInt(e.target.value, 10), startStep))}
+          className={thumbClasses}
+          aria-label="Timeline end"
+        />
+      </div>
+      <div className="flex justify-between text-xs text-white/50 mt-1">
+        <span>{formatDate(start)}</span>
+        <span>{formatDate(end)}</span>
+      </div>
+      <p className="text-xs text-white/60 mt-1">
+        {shownCount} of {commitTimes.length} commits
+        {range && (
+          <button onClick={() => onRangeChange(null)} className="ml-2 text-cyan-300 hover:text-cyan-200 underline">
+            Reset
+          </button>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default TimelineRangeSlider;
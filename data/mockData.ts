@@ -1,20 +1,80 @@
 import type { RepoData } from '../types';
 
 export const repoData: RepoData = {
-  c1: { pos: [0, 0, 0], parent: null, message: 'Initial commit', author: 'Alice Developer' },
-  c2: { pos: [0, 2, 0], parent: 'c1', message: 'feat: Add user authentication', author: 'Alice Developer' },
-  c3: { pos: [0, 4, 0], parent: 'c2', message: 'feat: Implement settings page', author: 'Bob Contributor' },
+  c1: {
+    pos: [0, 0, 0], parent: null, parents: [],
+    message: 'Initial commit', body: '',
+    author: 'Alice Developer', authorEmail: 'alice@example.com', authorTime: 1700086400,
+    committer: 'Alice Developer', committerEmail: 'alice@example.com', commitTime: 1700086400,
+  },
+  c2: {
+    pos: [0, 2, 0], parent: 'c1', parents: ['c1'],
+    message: 'feat: Add user authentication', body: '',
+    author: 'Alice Developer', authorEmail: 'alice@example.com', authorTime: 1700172800,
+    committer: 'Alice Developer', committerEmail: 'alice@example.com', commitTime: 1700172800,
+  },
+  c3: {
+    pos: [0, 4, 0], parent: 'c2', parents: ['c2'],
+    message: 'feat: Implement settings page', body: '',
+    author: 'Bob Contributor', authorEmail: 'bob@example.com', authorTime: 1700259200,
+    committer: 'Bob Contributor', committerEmail: 'bob@example.com', commitTime: 1700259200,
+  },
   // branch off c3
-  b1_c1: { pos: [2, 5, 1], parent: 'c3', message: 'feat(API): Begin work on new endpoint', author: 'Charlie Maintainer' },
-  b1_c2: { pos: [2, 7, 1], parent: 'b1_c1', message: 'fix(API): Correct data serialization', author: 'Charlie Maintainer' },
+  b1_c1: {
+    pos: [2, 5, 1], parent: 'c3', parents: ['c3'],
+    message: 'feat(API): Begin work on new endpoint', body: '',
+    author: 'Charlie Maintainer', authorEmail: 'charlie@example.com', authorTime: 1700345600,
+    committer: 'Charlie Maintainer', committerEmail: 'charlie@example.com', commitTime: 1700345600,
+  },
+  b1_c2: {
+    pos: [2, 7, 1], parent: 'b1_c1', parents: ['b1_c1'],
+    message: 'fix(API): Correct data serialization', body: '',
+    author: 'Charlie Maintainer', authorEmail: 'charlie@example.com', authorTime: 1700432000,
+    committer: 'Charlie Maintainer', committerEmail: 'charlie@example.com', commitTime: 1700432000,
+  },
   // another branch off c3
-  b2_c1: { pos: [-2, 5, -1], parent: 'c3', message: 'refactor: Improve database queries', author: 'Alice Developer' },
-  b2_c2: { pos: [-2.5, 7, -1.5], parent: 'b2_c1', message: 'docs: Update README with new setup instructions', author: 'Bob Contributor' },
-  b2_c3: { pos: [-2, 9, -1], parent: 'b2_c2', message: 'style: Format code with Prettier', author: 'Bob Contributor' },
+  b2_c1: {
+    pos: [-2, 5, -1], parent: 'c3', parents: ['c3'],
+    message: 'refactor: Improve database queries', body: '',
+    author: 'Alice Developer', authorEmail: 'alice@example.com', authorTime: 1700518400,
+    committer: 'Alice Developer', committerEmail: 'alice@example.com', commitTime: 1700518400,
+  },
+  b2_c2: {
+    pos: [-2.5, 7, -1.5], parent: 'b2_c1', parents: ['b2_c1'],
+    message: 'docs: Update README with new setup instructions', body: '',
+    author: 'Bob Contributor', authorEmail: 'bob@example.com', authorTime: 1700604800,
+    committer: 'Bob Contributor', committerEmail: 'bob@example.com', commitTime: 1700604800,
+  },
+  b2_c3: {
+    pos: [-2, 9, -1], parent: 'b2_c2', parents: ['b2_c2'],
+    message: 'style: Format code with Prettier', body: '',
+    author: 'Bob Contributor', authorEmail: 'bob@example.com', authorTime: 1700691200,
+    committer: 'Bob Contributor', committerEmail: 'bob@example.com', commitTime: 1700691200,
+  },
    // merge b1 into main
-  c4_merge: { pos: [0, 9, 0], parent: 'b1_c2', message: 'Merge branch \'feature/api-endpoint\'', author: 'Alice Developer' },
-  c5: { pos: [0, 11, 0], parent: 'c4_merge', message: 'release: Version 1.0.0', author: 'Alice Developer' },
+  c4_merge: {
+    pos: [0, 9, 0], parent: 'b1_c2', parents: ['b1_c2', 'c3'],
+    message: 'Merge branch \'feature/api-endpoint\'', body: '',
+    author: 'Alice Developer', authorEmail: 'alice@example.com', authorTime: 1700777600,
+    committer: 'Alice Developer', committerEmail: 'alice@example.com', commitTime: 1700777600,
+  },
+  c5: {
+    pos: [0, 11, 0], parent: 'c4_merge', parents: ['c4_merge'],
+    message: 'release: Version 1.0.0', body: '',
+    author: 'Alice Developer', authorEmail: 'alice@example.com', authorTime: 1700864000,
+    committer: 'Alice Developer', committerEmail: 'alice@example.com', commitTime: 1700864000,
+  },
   // another branch off c2
-  b3_c1: { pos: [3, 3, -2], parent: 'c2', message: 'fix: Handle edge case in login form', author: 'Charlie Maintainer' },
-  b3_c2: { pos: [4, 4.5, -3], parent: 'b3_c1', message: 'test: Add unit tests for form validation', author: 'Charlie Maintainer' },
+  b3_c1: {
+    pos: [3, 3, -2], parent: 'c2', parents: ['c2'],
+    message: 'fix: Handle edge case in login form', body: '',
+    author: 'Charlie Maintainer', authorEmail: 'charlie@example.com', authorTime: 1700950400,
+    committer: 'Charlie Maintainer', committerEmail: 'charlie@example.com', commitTime: 1700950400,
+  },
+  b3_c2: {
+    pos: [4, 4.5, -3], parent: 'b3_c1', parents: ['b3_c1'],
+    message: 'test: Add unit tests for form validation', body: '',
+    author: 'Charlie Maintainer', authorEmail: 'charlie@example.com', authorTime: 1701036800,
+    committer: 'Charlie Maintainer', committerEmail: 'charlie@example.com', commitTime: 1701036800,
+  },
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import type { AnalysisResult, Author, CommitNode, FileChurn, GitRef, RepoData } from '../types';
+
+// Exports of very large repositories are big, but anything past this is almost
+// certainly not an analysis file and would only freeze the tab
+const MAX_FILE_BYTES = 512 * 1024 * 1024;
+
+const REF_TYPES: GitRef['type'][] = ['branch', 'remote', 'tag'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const optionalTime = (value: unknown) => (isFiniteNumber(value) ? value : 0);
+
+// Checks one commit and fills in fields that older exports didn't have yet
+const parseCommitNode = (hash: string, value: unknown): CommitNode => {
+  const fail = (reason: string): never => {
+    throw new Error(`Commit ${hash.substring(0, 12)} ${reason}`);
+  };
+
+  if (!isObject(value)) fail('is not an object');
+  const node = value as Record<string, any>;
+
+  if (!Array.isArray(node.pos) || node.pos.length !== 3 || !node.pos.every(isFiniteNumber)) {
+    fail('has no valid "pos" (expected three numbers)');
+  }
+  if (node.parent !== null && node.parent !== undefined && typeof node.parent !== 'string') {
+    fail('has an invalid "parent"');
+  }
+  if (node.parents !== undefined && (!Array.isArray(node.parents) || !node.parents.every((p: unknown) => typeof p === 'string'))) {
+    fail('has an invalid "parents" list');
+  }
+  if (typeof node.message !== 'string') fail('has no "message"');
+  if (typeof node.author !== 'string') fail('has no "author"');
+
+  const parent: string | null = node.parent ?? null;
+  return {
+    pos: [node.pos[0], node.pos[1], node.pos[2]],
+    parent,
+    parents: node.parents ?? (parent ? [parent] : []),
+    message: node.message,
+    body: optionalString(node.body),
+    author: node.author,
+    authorEmail: optionalString(node.authorEmail),
+    authorTime: optionalTime(node.authorTime),
+    committer: optionalString(node.committer) || node.author,
+    committerEmail: optionalString(node.committerEmail),
+    commitTime: optionalTime(node.commitTime),
+    ...(typeof node.branchColor === 'string' ? { branchColor: node.branchColor } : {}),
+  };
+};
+
+const parseAuthors = (value: unknown, repoData: RepoData): Author[] => {
+  if (value === undefined) {
+    // Bare RepoData exports carry no author list; count it from the commits
+    const counts = new Map<string, number>();
+    Object.values(repoData).forEach(node => counts.set(node.author, (counts.get(node.author) || 0) + 1));
+    return Array.from(counts.entries()).map(([name, commitCount]) => ({ name, commitCount }));
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('"authors" must be a list');
+  }
+  return value.map((author, index) => {
+    if (!isObject(author) || typeof author.name !== 'string' || !isFiniteNumber(author.commitCount)) {
+      throw new Error(`Author #${index + 1} must have a "name" and a numeric "commitCount"`);
+    }
+    return { name: author.name, commitCount: author.commitCount };
+  });
+};
+
+// Refs are decoration only, so malformed entries are dropped instead of rejecting the file
+const parseRefs = (value: unknown, repoData: RepoData): GitRef[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((ref): ref is GitRef =>
+    isObject(ref) &&
+    typeof ref.name === 'string' &&
+    REF_TYPES.includes(ref.type) &&
+    typeof ref.target === 'string' &&
+    !!repoData[ref.target]
+  );
+};
+
+// Churn is optional too: exports made before it was collected have none
+const parseChurn = (value: unknown): FileChurn[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((file): file is FileChurn =>
+    isObject(file) &&
+    typeof file.path === 'string' &&
+    isFiniteNumber(file.commits) &&
+    isFiniteNumber(file.insertions) &&
+    isFiniteNumber(file.deletions) &&
+    Array.isArray(file.authors) &&
+    file.authors.every((author: unknown) => typeof author === 'string')
+  );
+};
+
+// Validates the contents of an exported analysis: either the
+// `{ repoData, authors, refs }` result of a job (as written by
+// `npm run export` in backend/) or a bare RepoData object
+export const parseAnalysisFile = (text: string): AnalysisResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isObject(json)) {
+    throw new Error('Expected a JSON object with "repoData"');
+  }
+
+  const rawRepoData = isObject(json.repoData) ? json.repoData : json;
+  const hashes = Object.keys(rawRepoData);
+  if (hashes.length === 0) {
+    throw new Error('The file contains no commits');
+  }
+
+  const repoData: RepoData = {};
+  hashes.forEach(hash => {
+    repoData[hash] = parseCommitNode(hash, rawRepoData[hash]);
+  });
+
+  const fromJob = isObject(json.repoData);
+  return {
+    repoData,
+    authors: parseAuthors(fromJob ? json.authors : undefined, repoData),
+    refs: fromJob ? parseRefs(json.refs, repoData) : [],
+    ...(fromJob && parseChurn(json.churn) ? { churn: parseChurn(json.churn) } : {}),
+  };
+};
+
+export const readAnalysisFile = async (file: File): Promise<AnalysisResult> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`${file.name} is too large to be an analysis file`);
+  }
+  const text = await file.text();
+  try {
+    return parseAnalysisFile(text);
+  } catch (err) {
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'invalid analysis file'}`);
+  }
+};
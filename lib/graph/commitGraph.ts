@@ -0,0 +1,75 @@
+import type { RepoData } from '../../types';
+
+// Parent and child links of every analyzed commit, both directions indexed so
+// ancestors and descendants can be walked equally fast
+export interface CommitGraph {
+  parents: Map<string, string[]>;
+  children: Map<string, string[]>;
+}
+
+export type LineageMode = 'none' | 'ancestors' | 'descendants';
+
+// Parents missing from the analysis (e.g. a shallow history) are left out
+export const buildCommitGraph = (repoData: RepoData): CommitGraph => {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  Object.keys(repoData).forEach(hash => children.set(hash, []));
+
+  Object.entries(repoData).forEach(([hash, node]) => {
+    const known = (node.parents || []).filter(parent => repoData[parent]);
+    parents.set(hash, known);
+    known.forEach(parent => children.get(parent)!.push(hash));
+  });
+
+  return { parents, children };
+};
+
+// Every commit reachable from `start` through `links`, `start` included
+const walk = (links: Map<string, string[]>, start: string): Set<string> => {
+  const seen = new Set<string>();
+  if (!links.has(start)) return seen;
+  const stack = [start];
+  while (stack.length > 0) {
+    const hash = stack.pop()!;
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    (links.get(hash) || []).forEach(next => {
+      if (!seen.has(next)) stack.push(next);
+    });
+  }
+  return seen;
+};
+
+// All ancestors of a commit through every parent, merges included
+export const findAncestors = (graph: CommitGraph, hash: string) => walk(graph.parents, hash);
+
+// All descendants of a commit: every commit that contains it
+export const findDescendants = (graph: CommitGraph, hash: string) => walk(graph.children, hash);
+
+// Shortest chain of commits from `from` back to its ancestor `to`, following
+// every parent (not just the first), both ends included. Null when `to` is
+// not an ancestor of `from` within the analyzed history.
+export const findAncestryPath = (repoData: RepoData, from: string, to: string): string[] | null => {
+  if (!repoData[from] || !repoData[to]) return null;
+
+  // Child each commit was first reached from, to walk the path back afterwards
+  const reachedFrom = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  for (let i = 0; i < queue.length; i++) {
+    const hash = queue[i];
+    if (hash === to) {
+      const path: string[] = [];
+      for (let step: string | null = to; step !== null; step = reachedFrom.get(step) ?? null) {
+        path.push(step);
+      }
+      return path.reverse();
+    }
+    (repoData[hash]?.parents || []).forEach(parent => {
+      if (!reachedFrom.has(parent) && repoData[parent]) {
+        reachedFrom.set(parent, hash);
+        queue.push(parent);
+      }
+    });
+  }
+  return null;
+};
@@ -0,0 +1,116 @@
+import type { RepoData, LayoutMode } from '../../types';
+
+// Gaps between consecutive commits longer than this are shrunk to this length
+// when idle-gap compression is enabled
+const MAX_IDLE_GAP_SECONDS = 7 * 24 * 60 * 60;
+// Minimum vertical distance between two grid rings, so dense months don't pile up
+const MIN_TICK_SPACING = 0.75;
+// Histories shorter than this get month rings, longer ones only year rings
+const MONTH_TICKS_MAX_SPAN_SECONDS = 3 * 365 * 24 * 60 * 60;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface TimeTick {
+  y: number;
+  label: string;
+  major: boolean; // year boundary
+}
+
+export interface TimeAxis {
+  ticks: TimeTick[];
+  center: [number, number]; // x/z centre of the graph, where rings are anchored
+  radius: number;
+}
+
+export const commitTimeOf = (node: RepoData[string]) => node.commitTime || node.authorTime || 0;
+
+// Re-positions commits for the selected layout mode. The topological layout
+// from the backend is returned as-is; the chronological layout keeps each
+// commit's lane (x/z) and maps its commit time onto the vertical axis, using
+// the same overall height so the galaxy keeps its proportions.
+export const applyLayoutMode = (
+  repoData: RepoData,
+  layoutMode: LayoutMode,
+  compressIdleGaps: boolean
+): { repoData: RepoData, timeAxis: TimeAxis | null } => {
+  const hashes = Object.keys(repoData);
+  if (layoutMode !== 'chronological' || hashes.length === 0) {
+    return { repoData, timeAxis: null };
+  }
+
+  let minY = Infinity, maxY = -Infinity;
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  hashes.forEach(hash => {
+    const [x, y, z] = repoData[hash].pos;
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minZ = Math.min(minZ, z); maxZ = Math.max(maxZ, z);
+  });
+  const height = Math.max(maxY - minY, 10);
+
+  // Distinct commit times, ascending, with their (possibly compressed) offsets
+  const times = Array.from(new Set(hashes.map(hash => commitTimeOf(repoData[hash])))).sort((a, b) => a - b);
+  const offsets: number[] = new Array(times.length);
+  offsets[0] = 0;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    offsets[i] = offsets[i - 1] + (compressIdleGaps ? Math.min(gap, MAX_IDLE_GAP_SECONDS) : gap);
+  }
+  const totalOffset = offsets[offsets.length - 1];
+  const scale = totalOffset > 0 ? height / totalOffset : 0;
+
+  // Maps any timestamp inside the history onto the vertical axis,
+  // interpolating between the two surrounding commit times
+  const timeToY = (time: number): number => {
+    if (time <= times[0]) return 0;
+    if (time >= times[times.length - 1]) return totalOffset * scale;
+    let lo = 0, hi = times.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= time) lo = mid; else hi = mid;
+    }
+    const fraction = (time - times[lo]) / (times[hi] - times[lo]);
+    return (offsets[lo] + fraction * (offsets[hi] - offsets[lo])) * scale;
+  };
+
+  const positioned: RepoData = {};
+  hashes.forEach(hash => {
+    const node = repoData[hash];
+    positioned[hash] = { ...node, pos: [node.pos[0], minY + timeToY(commitTimeOf(node)), node.pos[2]] };
+  });
+
+  // Calendar boundaries (month or year starts) inside the history
+  const ticks: TimeTick[] = [];
+  const first = new Date(times[0] * 1000);
+  const monthly = times[times.length - 1] - times[0] <= MONTH_TICKS_MAX_SPAN_SECONDS;
+  const cursor = monthly
+    ? new Date(first.getFullYear(), first.getMonth() + 1, 1)
+    : new Date(first.getFullYear() + 1, 0, 1);
+  let lastY = -Infinity;
+  while (cursor.getTime() / 1000 <= times[times.length - 1]) {
+    const y = minY + timeToY(cursor.getTime() / 1000);
+    const major = cursor.getMonth() === 0;
+    if (y - lastY >= MIN_TICK_SPACING) {
+      ticks.push({
+        y,
+        label: major ? `${cursor.getFullYear()}` : `${MONTH_NAMES[cursor.getMonth()]} ${cursor.getFullYear()}`,
+        major,
+      });
+      lastY = y;
+    }
+    if (monthly) {
+      cursor.setMonth(cursor.getMonth() + 1);
+    } else {
+      cursor.setFullYear(cursor.getFullYear() + 1);
+    }
+  }
+
+  return {
+    repoData: positioned,
+    timeAxis: {
+      ticks,
+      center: [(minX + maxX) / 2, (minZ + maxZ) / 2],
+      radius: Math.max(maxX - minX, maxZ - minZ) / 2 + 2,
+    },
+  };
+};
@@ -26,18 +26,76 @@ const themePalettes: Record<string, THREE.Color[]> = {
   ],
 };
 
+// Edges leading into a commit: the first-parent tube and, for merges, a dim arc
+// to every other parent so merged branches visibly rejoin without being
+// mistaken for first-parent history. Meshes carry the commit and parent hashes
+// in userData.
+const createCommitEdges = (hash: string, repoData: RepoData, palette: THREE.Color[], branchIndex: number) => {
+  const commit = repoData[hash];
+  let branchTube: THREE.Mesh | null = null;
+  const mergeArcs: THREE.Mesh[] = [];
+
+  if (commit.parent && repoData[commit.parent]) {
+    const parentCommit = repoData[commit.parent];
+    const startVec = new THREE.Vector3(...parentCommit.pos);
+    const endVec = new THREE.Vector3(...commit.pos);
+
+    const curve = new THREE.LineCurve3(startVec, endVec);
+    const tubeGeometry = new THREE.TubeGeometry(curve, 20, 0.02, 8, false);
+    
+    // Select color from theme palette based on branch index
+    const branchColor = palette[branchIndex % palette.length].clone();
+    const tubeMaterial = new THREE.MeshBasicMaterial({
+      color: branchColor,
+    });
+
+    branchTube = new THREE.Mesh(tubeGeometry, tubeMaterial);
+    branchTube.userData = { hash, parent: commit.parent, isMerge: false };
+  }
+
+  const mergeParents = commit.parents ? commit.parents.slice(1) : [];
+  mergeParents.forEach((parentHash, mergeIndex) => {
+    const parentCommit = repoData[parentHash];
+    if (!parentCommit) return;
+
+    const startVec = new THREE.Vector3(...parentCommit.pos);
+    const endVec = new THREE.Vector3(...commit.pos);
+    const controlVec = new THREE.Vector3().addVectors(startVec, endVec).multiplyScalar(0.5);
+    // Bow the arc sideways; fan out octopus merges so their arcs don't overlap
+    const bow = Math.max(0.5, startVec.distanceTo(endVec) * 0.25) * (1 + mergeIndex * 0.5);
+    controlVec.z += bow;
+
+    const curve = new THREE.QuadraticBezierCurve3(startVec, controlVec, endVec);
+    const tubeGeometry = new THREE.TubeGeometry(curve, 20, 0.012, 6, false);
+    const mergeColor = palette[branchIndex % palette.length].clone().multiplyScalar(0.4);
+    const tubeMaterial = new THREE.MeshBasicMaterial({
+      color: mergeColor,
+      transparent: true,
+      opacity: 0.6,
+    });
+
+    const arc = new THREE.Mesh(tubeGeometry, tubeMaterial);
+    arc.userData = { hash, parent: parentHash, isMerge: true };
+    mergeArcs.push(arc);
+  });
+
+  return { branchTube, mergeArcs };
+};
+
 export const buildGraph = (scene: THREE.Scene, repoData: RepoData, settings: Settings) => {
   console.log('[buildGraph] Starting graph build with', Object.keys(repoData).length, 'commits');
   
   const commitPositions: number[] = [];
   const commitObjects = new THREE.Group();
   const branchObjects = new THREE.Group();
+  const mergeObjects = new THREE.Group();
+  mergeObjects.visible = settings.showMergeEdges;
   
   const commitHashes = Object.keys(repoData);
   
   if (commitHashes.length === 0) {
     console.error('[buildGraph] No commits found in repoData!');
-    return { commitObjects, branchObjects, commitHashes: [] };
+    return { stars: null, branchObjects, mergeObjects };
   }
 
   // Create Commits (Stars)
@@ -52,7 +110,7 @@ export const buildGraph = (scene: THREE.Scene, repoData: RepoData, settings: Set
   
   if (commitPositions.length === 0) {
     console.error('[buildGraph] No valid commit positions found!');
-    return { commitObjects, branchObjects, commitHashes: [] };
+    return { stars: null, branchObjects, mergeObjects };
   }
   
   console.log('[buildGraph] Created', commitPositions.length / 3, 'commit positions');
@@ -86,31 +144,112 @@ export const buildGraph = (scene: THREE.Scene, repoData: RepoData, settings: Set
   let branchIndex = 0;
   
   for (const hash of commitHashes) {
-    const commit = repoData[hash];
-    if (commit.parent && repoData[commit.parent]) {
-      const parentCommit = repoData[commit.parent];
-      const startVec = new THREE.Vector3(...parentCommit.pos);
-      const endVec = new THREE.Vector3(...commit.pos);
-
-      const curve = new THREE.LineCurve3(startVec, endVec);
-      const tubeGeometry = new THREE.TubeGeometry(curve, 20, 0.02, 8, false);
-      
-      // Select color from theme palette based on branch index
-      const branchColor = palette[branchIndex % palette.length].clone();
-      const tubeMaterial = new THREE.MeshBasicMaterial({
-        color: branchColor,
-      });
-
-      const tube = new THREE.Mesh(tubeGeometry, tubeMaterial);
-      branchObjects.add(tube);
+    const { branchTube, mergeArcs } = createCommitEdges(hash, repoData, palette, branchIndex);
+    if (branchTube) {
+      branchObjects.add(branchTube);
       branchIndex++;
     }
+    mergeArcs.forEach(arc => mergeObjects.add(arc));
   }
 
   scene.add(commitObjects);
   scene.add(branchObjects);
+  scene.add(mergeObjects);
+
+  return { stars, branchObjects, mergeObjects };
+};
+
+// Adds commits that arrived after the graph was built (e.g. from an incremental
+// refresh) to the existing stars and edge groups. Returns the new edge meshes
+// so the caller can animate them in.
+export const appendCommits = (
+  graph: { stars: THREE.Points, branchObjects: THREE.Group, mergeObjects: THREE.Group },
+  repoData: RepoData,
+  newHashes: string[],
+  settings: Settings
+) => {
+  const { stars, branchObjects, mergeObjects } = graph;
+  const oldGeometry = stars.geometry;
+  const oldPositions = oldGeometry.attributes.position.array as Float32Array;
+  const oldColors = oldGeometry.attributes.color.array as Float32Array;
+
+  const positions = new Float32Array(oldPositions.length + newHashes.length * 3);
+  const colors = new Float32Array(oldColors.length + newHashes.length * 3);
+  positions.set(oldPositions);
+  colors.set(oldColors);
+  newHashes.forEach((hash, i) => {
+    positions.set(repoData[hash].pos, oldPositions.length + i * 3);
+    colors.set([1.0, 1.0, 1.0], oldColors.length + i * 3);
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  stars.geometry = geometry;
+  oldGeometry.dispose();
+
+  const palette = themePalettes[settings.theme] || themePalettes.cyberpunk;
+  const newEdges: THREE.Mesh[] = [];
+  newHashes.forEach(hash => {
+    const { branchTube, mergeArcs } = createCommitEdges(hash, repoData, palette, branchObjects.children.length);
+    if (branchTube) {
+      branchObjects.add(branchTube);
+      newEdges.push(branchTube);
+    }
+    mergeArcs.forEach(arc => {
+      mergeObjects.add(arc);
+      newEdges.push(arc);
+    });
+  });
+
+  return { newEdges };
+};
+
+// Expanding, fading halo marking a star that just appeared
+export const createArrivalFlash = (position: [number, number, number], color: THREE.ColorRepresentation = 0xffffff) => {
+  const material = new THREE.SpriteMaterial({
+    color,
+    transparent: true,
+    opacity: 1,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+  });
+  const flash = new THREE.Sprite(material);
+  flash.position.set(...position);
+  flash.scale.set(0.1, 0.1, 1);
+  return flash;
+};
+
+export interface HighlightPath {
+  hashes: string[]; // consecutive commits, each a child or parent of the next
+  color: THREE.ColorRepresentation;
+}
+
+// Bright, thick tubes over chains of commits, e.g. the ancestry path between two compared commits
+export const buildPathHighlights = (scene: THREE.Scene, paths: HighlightPath[], repoData: RepoData) => {
+  const pathGroup = new THREE.Group();
+
+  paths.forEach(path => {
+    const material = new THREE.MeshBasicMaterial({ color: path.color, transparent: true, opacity: 0.85 });
+    for (let i = 1; i < path.hashes.length; i++) {
+      const from = repoData[path.hashes[i - 1]];
+      const to = repoData[path.hashes[i]];
+      if (!from || !to) continue;
+      const curve = new THREE.LineCurve3(new THREE.Vector3(...from.pos), new THREE.Vector3(...to.pos));
+      pathGroup.add(new THREE.Mesh(new THREE.TubeGeometry(curve, 8, 0.05, 8, false), material));
+    }
+  });
+
+  scene.add(pathGroup);
+  return pathGroup;
+};
 
-  return { stars };
+// Some hosts (e.g. Bitbucket) report abbreviated hashes, so fall back to a prefix match
+const findCommit = (repoData: RepoData, hashes: string[], sha: string) => {
+  if (repoData[sha]) return repoData[sha];
+  if (sha.length < 4) return undefined;
+  const match = hashes.find(hash => hash.startsWith(sha));
+  return match ? repoData[match] : undefined;
 };
 
 // Phase 7: Build Pull Request visualizations
@@ -121,10 +260,11 @@ export const buildPullRequests = (
 ) => {
   const prGroup = new THREE.Group();
   const animatedMaterials: THREE.MeshBasicMaterial[] = [];
+  const hashes = Object.keys(repoData);
   
   prData.forEach((pr) => {
-    const headCommit = repoData[pr.headSha];
-    const baseCommit = repoData[pr.baseSha];
+    const headCommit = findCommit(repoData, hashes, pr.headSha);
+    const baseCommit = findCommit(repoData, hashes, pr.baseSha);
     
     if (!headCommit || !baseCommit) {
       return; // Skip if commits not found
@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+
+const LABEL_FONT_SIZE = 32;
+const LABEL_PADDING = 8;
+// World-space height of a label sprite; width follows the text
+const LABEL_WORLD_HEIGHT = 0.5;
+
+// Text rendered onto a canvas texture, always facing the camera
+export const createTextSprite = (text: string, color: string, background?: string) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const font = `${LABEL_FONT_SIZE}px monospace`;
+
+  let textWidth = text.length * LABEL_FONT_SIZE * 0.6;
+  if (context) {
+    context.font = font;
+    textWidth = context.measureText(text).width;
+  }
+  canvas.width = Math.ceil(textWidth + LABEL_PADDING * 2);
+  canvas.height = LABEL_FONT_SIZE + LABEL_PADDING * 2;
+
+  if (context) {
+    if (background) {
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    // Resizing the canvas resets the context state
+    context.font = font;
+    context.fillStyle = color;
+    context.textBaseline = 'middle';
+    context.fillText(text, LABEL_PADDING, canvas.height / 2);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  const material = new THREE.SpriteMaterial({ map: texture, transparent: true, depthWrite: false });
+  const sprite = new THREE.Sprite(material);
+  sprite.scale.set(LABEL_WORLD_HEIGHT * (canvas.width / canvas.height), LABEL_WORLD_HEIGHT, 1);
+  return sprite;
+};
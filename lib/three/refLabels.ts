@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import type { GitRef, RepoData } from '../../types';
+import { createTextSprite } from './labels';
+
+// Repos with thousands of tags would bury the galaxy in text
+const MAX_REF_LABELS = 300;
+// Vertical gap between labels stacked on the same commit
+const LABEL_STACK_SPACING = 0.55;
+// Height of the beacon line between a commit and its first label
+const BEACON_HEIGHT = 0.8;
+
+const refStyles: Record<GitRef['type'], { color: string, background: string, beacon: number }> = {
+  branch: { color: '#66ffff', background: 'rgba(0, 60, 60, 0.6)', beacon: 0x00ffff },
+  remote: { color: '#cc99ff', background: 'rgba(40, 0, 60, 0.6)', beacon: 0x9966ff },
+  tag: { color: '#ffdd66', background: 'rgba(60, 45, 0, 0.6)', beacon: 0xffcc00 },
+};
+
+// Lower sorts first: HEAD, local branches, tags, then remote-tracking branches
+const refPriority = (ref: GitRef) => {
+  if (ref.isHead) return 0;
+  if (ref.type === 'branch') return 1;
+  if (ref.type === 'tag') return 2;
+  return 3;
+};
+
+// Floating labels for branches and tags. Each sprite and beacon carries the
+// hash of the commit it marks in userData.hash, so labels can be picked with a
+// raycaster and hidden along with their commit
+export const buildRefLabels = (scene: THREE.Scene, refs: GitRef[], repoData: RepoData) => {
+  const refGroup = new THREE.Group();
+  const labelSprites: THREE.Sprite[] = [];
+  const stackHeights = new Map<string, number>();
+
+  const visibleRefs = refs
+    .filter(ref => repoData[ref.target])
+    .sort((a, b) => refPriority(a) - refPriority(b))
+    .slice(0, MAX_REF_LABELS);
+
+  visibleRefs.forEach(ref => {
+    const commit = repoData[ref.target];
+    const style = refStyles[ref.type];
+    const commitPos = new THREE.Vector3(...commit.pos);
+    const stackIndex = stackHeights.get(ref.target) || 0;
+    stackHeights.set(ref.target, stackIndex + 1);
+
+    if (stackIndex === 0) {
+      const beaconGeometry = new THREE.BufferGeometry().setFromPoints([
+        commitPos,
+        commitPos.clone().add(new THREE.Vector3(0, BEACON_HEIGHT, 0)),
+      ]);
+      const beaconMaterial = new THREE.LineBasicMaterial({ color: style.beacon, transparent: true, opacity: 0.6 });
+      const beacon = new THREE.Line(beaconGeometry, beaconMaterial);
+      beacon.userData.hash = ref.target;
+      refGroup.add(beacon);
+    }
+
+    const text = ref.isHead ? `HEAD → ${ref.name}` : ref.name;
+    const sprite = createTextSprite(text, style.color, style.background);
+    sprite.position.copy(commitPos).add(new THREE.Vector3(0, BEACON_HEIGHT + 0.3 + stackIndex * LABEL_STACK_SPACING, 0));
+    sprite.userData.hash = ref.target;
+    refGroup.add(sprite);
+    labelSprites.push(sprite);
+  });
+
+  scene.add(refGroup);
+  return { refGroup, labelSprites };
+};
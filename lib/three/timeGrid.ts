@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+import type { TimeAxis } from '../layout/chronological';
+import { createTextSprite } from './labels';
+
+// Floating horizontal rings marking month/year boundaries of the chronological layout
+export const buildTimeGrid = (scene: THREE.Scene, timeAxis: TimeAxis) => {
+  const gridGroup = new THREE.Group();
+  const [centerX, centerZ] = timeAxis.center;
+
+  const ringPoints = new THREE.EllipseCurve(0, 0, timeAxis.radius, timeAxis.radius, 0, Math.PI * 2, false, 0)
+    .getPoints(64)
+    .map(point => new THREE.Vector3(point.x, 0, point.y));
+
+  timeAxis.ticks.forEach(tick => {
+    const geometry = new THREE.BufferGeometry().setFromPoints(ringPoints);
+    const material = new THREE.LineBasicMaterial({
+      color: tick.major ? 0x00ffff : 0x336666,
+      transparent: true,
+      opacity: tick.major ? 0.35 : 0.15,
+    });
+    const ring = new THREE.LineLoop(geometry, material);
+    ring.position.set(centerX, tick.y, centerZ);
+    gridGroup.add(ring);
+
+    const label = createTextSprite(tick.label, tick.major ? '#66ffff' : '#669999');
+    label.position.set(centerX + timeAxis.radius + 1.2, tick.y, centerZ);
+    gridGroup.add(label);
+  });
+
+  scene.add(gridGroup);
+  return { gridGroup };
+};